@@ -1,20 +1,27 @@
-import React, { useState } from 'react';
+import React from 'react';
 import { Layout } from './components/Layout';
 import { QuoteLibrary } from './components/QuoteLibrary';
 import { VideoAnalyzer } from './components/VideoAnalyzer';
+import { BatchQueue } from './components/BatchQueue';
+import { QuoteCollection } from './components/QuoteCollection';
+import { useRoute } from './hooks/useRoute';
+import { navigate } from './services/routeService';
 import { ViewState } from './types';
 
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<ViewState>(ViewState.LIBRARY);
+  // The view lives in the URL hash so it can be linked to and survives back/forward
+  const { view: currentView } = useRoute();
 
   return (
-    <Layout currentView={currentView} onViewChange={setCurrentView}>
+    <Layout currentView={currentView} onViewChange={(view: ViewState) => navigate({ view })}>
       <div className="max-w-4xl mx-auto w-full px-4 py-8">
         {currentView === ViewState.LIBRARY && <QuoteLibrary />}
         {currentView === ViewState.CREATE && <VideoAnalyzer />}
+        {currentView === ViewState.BATCH && <BatchQueue />}
+        {currentView === ViewState.COLLECTION && <QuoteCollection />}
       </div>
     </Layout>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
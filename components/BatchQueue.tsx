@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AnalysisPhase, AnalysisStatus, BatchItem, TargetDuration } from '../types';
+import { useBatchQueue } from '../hooks/useBatchQueue';
+import { usePresets } from '../hooks/usePresets';
+import { useCompliance } from '../hooks/useCompliance';
+import { useReadingSpeed } from '../hooks/useReadingSpeed';
+import { selectPreset } from '../services/presetService';
+import { BATCH_CONCURRENCY } from '../services/batchService';
+import { serializeBatch } from '../utils/batchExport';
+import { LibraryFormat, FORMAT_MIME } from '../utils/libraryFormats';
+import { downloadText } from '../utils/download';
+import { formatCost, formatTokens, sumUsage } from '../utils/usage';
+import { confirmBudget } from './UsageDialog';
+import { HOT_TOPICS, DURATION_OPTIONS } from '../utils/constants';
+
+const FORMATS: { id: LibraryFormat; label: string }[] = [
+  { id: 'json', label: 'JSON' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'md', label: 'Markdown' }
+];
+
+const PHASE_LABELS: Record<AnalysisPhase, string> = {
+  [AnalysisPhase.PREPARING]: '提取音轨',
+  [AnalysisPhase.ENCODING]: '读取视频',
+  [AnalysisPhase.UPLOADING]: '上传中',
+  [AnalysisPhase.THINKING]: '思考中',
+  [AnalysisPhase.RECEIVING]: '生成中',
+  [AnalysisPhase.ADJUSTING]: '校正文案'
+};
+
+const statusLabel = (item: BatchItem) => {
+  switch (item.status) {
+    case AnalysisStatus.ANALYZING: return item.phase ? PHASE_LABELS[item.phase] : '生成中';
+    case AnalysisStatus.COMPLETED: return '已完成';
+    case AnalysisStatus.ERROR: return '失败';
+    default: return '排队中';
+  }
+};
+
+const STATUS_STYLES: Partial<Record<AnalysisStatus, string>> = {
+  [AnalysisStatus.ANALYZING]: 'bg-purple-50 text-purple-500 animate-pulse',
+  [AnalysisStatus.COMPLETED]: 'bg-green-50 text-green-600',
+  [AnalysisStatus.ERROR]: 'bg-rose-50 text-rose-500'
+};
+
+// Queues several clips and topics, generates them in the background and exports everything at once
+export const BatchQueue: React.FC = () => {
+  const { presets, selected: preset } = usePresets();
+  const { settings: compliance, terms: complianceTerms } = useCompliance();
+  const { items, running, addTopics, addFiles, remove, clear, requeue, patch, start, cancel } = useBatchQueue();
+  // Set in the single-item view; the batch sizes quotes for the same voice-over speed
+  const [readingSpeed] = useReadingSpeed();
+  const [duration, setDuration] = useState<TargetDuration>(preset.defaultDuration);
+  const [topicDraft, setTopicDraft] = useState('');
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // New items follow the preset's default duration, as in the single-item view
+  useEffect(() => {
+    setDuration(preset.defaultDuration);
+  }, [preset.id, preset.defaultDuration]);
+
+  const queued = items.filter(i => i.status === AnalysisStatus.IDLE).length;
+  const done = items.filter(i => i.status === AnalysisStatus.COMPLETED).length;
+  const failed = items.filter(i => i.status === AnalysisStatus.ERROR).length;
+  const usage = sumUsage(items.flatMap(i => i.result?.usage || []));
+
+  const handleAddTopics = () => {
+    addTopics(topicDraft.split(/\r?\n/), duration);
+    setTopicDraft('');
+  };
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []).filter(f => f.type.startsWith('video/'));
+    e.target.value = '';
+    if (files.length) addFiles(files, duration);
+  };
+
+  const handleStart = () => {
+    if (!confirmBudget()) return;
+    start({
+      preset,
+      regenerateDuplicates: true,
+      readingSpeed,
+      enforceLength: true,
+      avoidTerms: compliance.avoidFlagged ? complianceTerms : undefined
+    });
+  };
+
+  const handleExport = (format: LibraryFormat) => {
+    const content = serializeBatch(items, format, { presetName: preset.name, exportedAt: new Date() });
+    downloadText(`批量二创-${new Date().toISOString().slice(0, 10)}.${format}`, content, FORMAT_MIME[format]);
+  };
+
+  return (
+    <div className="space-y-6 animate-fade-in-up">
+      <div className="bg-white rounded-2xl p-6 border border-purple-100 shadow-sm space-y-5 text-xs text-slate-500">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold">写作风格</span>
+          {presets.map(p => (
+            <button
+              key={p.id}
+              onClick={() => selectPreset(p.id)}
+              disabled={running}
+              className={`px-3 py-1 rounded-full border transition-colors disabled:opacity-50 ${
+                p.id === preset.id ? 'bg-purple-500 text-white border-purple-500' : 'border-slate-200 hover:border-purple-300'
+              }`}
+            >
+              {p.name}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold">新增条目时长</span>
+          {DURATION_OPTIONS.map(opt => (
+            <button
+              key={opt.id}
+              onClick={() => setDuration(opt.id)}
+              className={`px-3 py-1 rounded-full border transition-colors ${
+                duration === opt.id ? 'bg-rose-500 text-white border-rose-500' : 'border-slate-200 hover:border-rose-300'
+              }`}
+            >
+              {opt.label}
+            </button>
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <textarea
+            value={topicDraft}
+            onChange={(e) => setTopicDraft(e.target.value)}
+            rows={3}
+            placeholder={"每行一个主题，例如：\n35岁被裁员\n彩礼谈崩了"}
+            className="w-full bg-rose-50/50 border border-rose-100 rounded-xl py-2 px-3 text-sm text-slate-700 focus:outline-none focus:border-purple-300"
+          />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={handleAddTopics}
+              disabled={!topicDraft.trim()}
+              className="px-3 py-1.5 rounded-full bg-purple-500 text-white font-bold hover:bg-purple-600 disabled:opacity-40"
+            >
+              添加主题
+            </button>
+            <button
+              onClick={() => addTopics(HOT_TOPICS, duration)}
+              className="px-3 py-1.5 rounded-full bg-white border border-purple-100 text-purple-500 font-bold hover:border-purple-300"
+            >
+              添加全部热门话题 ({HOT_TOPICS.length})
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="px-3 py-1.5 rounded-full bg-white border border-rose-100 text-rose-500 font-bold hover:border-rose-300"
+            >
+              添加视频
+            </button>
+            <input ref={fileInputRef} type="file" accept="video/*" multiple onChange={handleFiles} className="hidden" />
+          </div>
+          <p className="text-[10px] text-slate-400">超过 5 分钟的视频只分析开头 5 分钟。同时生成 {BATCH_CONCURRENCY} 条，网络或限流失败会自动重试，切换到其他页面不影响生成，停止后未完成的条目回到队列。字数按生成页设置的 {readingSpeed} 字/秒语速控制。</p>
+        </div>
+      </div>
+
+      {items.length > 0 && (
+        <div className="bg-white rounded-2xl border border-purple-100 shadow-sm divide-y divide-purple-50">
+          {items.map((item, idx) => {
+            const editable = item.status === AnalysisStatus.IDLE || item.status === AnalysisStatus.ERROR;
+            const isExpanded = expanded === item.id && !!item.result;
+            return (
+              <div key={item.id} className="px-4 py-3 space-y-2 text-xs">
+                <div className="flex items-center gap-3">
+                  <span className="font-mono text-slate-300 w-5 text-right">{idx + 1}</span>
+                  <span className={`px-2 py-0.5 rounded-md text-[10px] font-bold ${item.file ? 'bg-rose-50 text-rose-500' : 'bg-purple-50 text-purple-500'}`}>
+                    {item.file ? '视频' : '主题'}
+                  </span>
+                  <button
+                    onClick={() => setExpanded(isExpanded ? null : item.id)}
+                    disabled={!item.result}
+                    className="flex-1 min-w-0 text-left text-sm text-slate-700 truncate disabled:cursor-default"
+                    title={item.file?.name || item.topic}
+                  >
+                    {item.file?.name || item.topic}
+                  </button>
+                  <select
+                    value={item.targetDuration}
+                    onChange={(e) => patch(item.id, { targetDuration: e.target.value as TargetDuration })}
+                    disabled={!editable}
+                    className="bg-transparent border border-slate-200 rounded-md px-1 py-0.5 text-slate-500 disabled:opacity-60"
+                  >
+                    {DURATION_OPTIONS.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
+                  </select>
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold ${STATUS_STYLES[item.status] ?? 'bg-slate-50 text-slate-400'}`}>
+                    {statusLabel(item)}
+                  </span>
+                  {item.status === AnalysisStatus.ERROR && (
+                    <button onClick={() => requeue(item.id)} className="text-purple-500 hover:text-purple-600 font-bold">重试</button>
+                  )}
+                  {item.status !== AnalysisStatus.ANALYZING && (
+                    <button onClick={() => remove(item.id)} className="text-slate-300 hover:text-rose-500 text-base leading-none" title="移除">×</button>
+                  )}
+                </div>
+                {item.error && <p className="pl-8 text-rose-500">{item.error}</p>}
+                {isExpanded && (
+                  <ol className="pl-8 space-y-2 list-decimal list-inside text-sm text-slate-600 whitespace-pre-wrap">
+                    {item.result!.generatedQuotes.map((text, i) => <li key={i}>{text}</li>)}
+                  </ol>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {items.length > 0 && (
+        <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+          <span className="text-slate-400">
+            共 {items.length} 项 · 已完成 {done}{failed > 0 && ` · 失败 ${failed}`}{queued > 0 && ` · 待生成 ${queued}`}
+            {usage.calls > 0 && ` · ${formatTokens(usage.inputTokens + usage.outputTokens)} tokens · ${formatCost(usage.cost)}`}
+          </span>
+          <button
+            onClick={handleStart}
+            disabled={running || queued === 0}
+            className="px-5 py-2 rounded-full bg-gradient-to-r from-rose-400 to-purple-500 text-white font-bold shadow-md shadow-rose-200 hover:shadow-lg transition-all disabled:opacity-50 disabled:shadow-none"
+          >
+            {running ? '批量生成中…' : `开始生成 (${queued})`}
+          </button>
+          {running && (
+            <button
+              onClick={cancel}
+              className="px-3 py-1.5 rounded-full bg-white border border-rose-100 text-rose-500 font-bold hover:border-rose-300 transition-all"
+            >
+              停止
+            </button>
+          )}
+          {FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => handleExport(f.id)}
+              disabled={done === 0}
+              className="px-3 py-1.5 rounded-full bg-white border border-purple-100 text-purple-500 font-bold hover:border-purple-300 transition-all disabled:opacity-40"
+            >
+              导出 {f.label}
+            </button>
+          ))}
+          <button onClick={clear} disabled={running} className="px-3 py-1.5 rounded-full text-slate-400 hover:text-rose-500 transition-colors disabled:opacity-40">
+            清空
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { ComplianceCategory, CompliancePlatform } from '../types';
+import { useCompliance } from '../hooks/useCompliance';
+import { resetPlatformTerms, setPlatformTerms, updateComplianceSettings } from '../services/complianceService';
+import { CATEGORY_LABELS, PLATFORM_LABELS, formatTermLines, parseTermLines } from '../utils/compliance';
+import { Modal } from './Modal';
+
+interface ComplianceDialogProps {
+  onClose: () => void;
+}
+
+const PLATFORMS = Object.keys(PLATFORM_LABELS) as CompliancePlatform[];
+const CATEGORIES = Object.keys(CATEGORY_LABELS) as ComplianceCategory[];
+
+type Drafts = Record<ComplianceCategory, string>;
+
+export const ComplianceDialog: React.FC<ComplianceDialogProps> = ({ onClose }) => {
+  const { settings, terms } = useCompliance();
+  const platform = settings.platform;
+  const [drafts, setDrafts] = useState<Drafts | null>(null);
+
+  // Reload the text areas whenever the platform or its saved list changes
+  useEffect(() => {
+    setDrafts(Object.fromEntries(CATEGORIES.map(c => [c, formatTermLines(terms, c)])) as Drafts);
+  }, [terms]);
+
+  // Unchanged lists are not saved, so the platform keeps following the defaults
+  const handleSave = () => {
+    if (!platform || !drafts || CATEGORIES.every(c => drafts[c] === formatTermLines(terms, c))) return;
+    setPlatformTerms(platform, CATEGORIES.flatMap(c => parseTermLines(drafts[c], c)));
+  };
+
+  return (
+    <Modal title="平台合规检查" onClose={onClose} maxWidth="max-w-2xl">
+      <div className="space-y-3 text-xs text-slate-500">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="font-bold">发布平台</span>
+          {[null, ...PLATFORMS].map(p => (
+            <button
+              key={p ?? 'off'}
+              onClick={() => updateComplianceSettings({ platform: p })}
+              className={`px-3 py-1 rounded-full border transition-colors ${
+                p === platform ? 'bg-purple-500 text-white border-purple-500' : 'border-slate-200 hover:border-purple-300'
+              }`}
+            >
+              {p ? PLATFORM_LABELS[p] : '关闭检查'}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-2 cursor-pointer select-none">
+          <input
+            type="checkbox"
+            checked={settings.avoidFlagged}
+            disabled={!platform}
+            onChange={(e) => updateComplianceSettings({ avoidFlagged: e.target.checked })}
+            className="accent-purple-500"
+          />
+          生成时避开这些词，仍然出现的语录自动改写一次
+        </label>
+        <p className="text-[10px] text-slate-400">
+          生成结果、语录库和收藏夹中的敏感词会标出波浪线，鼠标悬停查看建议的替换说法。检查只在本机进行，不能代替平台审核。
+        </p>
+      </div>
+
+      {platform && drafts && (
+        <div className="space-y-3 text-xs text-slate-500">
+          <div className="flex items-center justify-between">
+            <span className="font-bold">{PLATFORM_LABELS[platform]}词表 · 每行一个，「词 = 替换」给出建议说法</span>
+            {settings.rules[platform] && (
+              <button onClick={() => resetPlatformTerms(platform)} className="text-slate-400 hover:text-rose-500">恢复默认</button>
+            )}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {CATEGORIES.map(category => (
+              <label key={category} className="space-y-1">
+                <span className="font-bold text-rose-400">{CATEGORY_LABELS[category]}</span>
+                <textarea
+                  value={drafts[category]}
+                  onChange={(e) => setDrafts({ ...drafts, [category]: e.target.value })}
+                  onBlur={handleSave}
+                  rows={10}
+                  className="w-full bg-rose-50/50 border border-rose-100 rounded-xl py-2 px-3 font-mono text-slate-600 focus:outline-none focus:border-purple-300"
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -1,5 +1,6 @@
 import React from 'react';
 import { ViewState } from '../types';
+import { getQuoteProvider } from '../services/quoteService';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -43,6 +44,26 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewCha
             >
               视频二创
             </button>
+            <button
+              onClick={() => onViewChange(ViewState.BATCH)}
+              className={`px-5 py-1.5 rounded-full text-sm font-medium transition-all duration-300 ${
+                currentView === ViewState.BATCH
+                  ? 'bg-white text-purple-500 shadow-md shadow-purple-100'
+                  : 'text-slate-400 hover:text-purple-400'
+              }`}
+            >
+              批量生产
+            </button>
+            <button
+              onClick={() => onViewChange(ViewState.COLLECTION)}
+              className={`px-5 py-1.5 rounded-full text-sm font-medium transition-all duration-300 ${
+                currentView === ViewState.COLLECTION
+                  ? 'bg-white text-rose-500 shadow-md shadow-rose-100'
+                  : 'text-slate-400 hover:text-rose-400'
+              }`}
+            >
+              我的收藏
+            </button>
           </nav>
         </div>
       </header>
@@ -56,7 +77,7 @@ export const Layout: React.FC<LayoutProps> = ({ children, currentView, onViewCha
       <footer className="py-8 mt-12 text-center text-slate-400 text-sm">
         <div className="w-full h-px bg-gradient-to-r from-transparent via-rose-200 to-transparent mb-8 opacity-50"></div>
         <p className="font-serif-sc">© {new Date().getFullYear()} 大承活法 · 少女心扎心工厂</p>
-        <p className="mt-2 text-xs opacity-60">Powered by Gemini 2.5 Flash</p>
+        <p className="mt-2 text-xs opacity-60">Powered by {getQuoteProvider().label}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { importLibrary, exportLibrary, clearImportedQuotes, getImportedCount } from '../services/libraryService';
+import { useLibrary } from '../hooks/useLibrary';
+import { LibraryFormat, detectFormat, FORMAT_MIME } from '../utils/libraryFormats';
+import { downloadText } from '../utils/download';
+
+const FORMATS: { id: LibraryFormat; label: string }[] = [
+  { id: 'json', label: 'JSON' },
+  { id: 'csv', label: 'CSV' },
+  { id: 'md', label: 'Markdown' }
+];
+
+// Import/export toolbar so the corpus can be curated without touching source code
+export const LibraryTransfer: React.FC = () => {
+  const library = useLibrary();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [message, setMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const importedCount = getImportedCount();
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const format = detectFormat(file.name);
+    if (!format) {
+      setMessage({ ok: false, text: '仅支持 .json / .csv / .md 文件' });
+      return;
+    }
+
+    try {
+      const report = importLibrary(await file.text(), format);
+      if (report.issues.length > 0) {
+        const preview = report.issues.slice(0, 5).map(i => `第${i.index + 1}条: ${i.message}`).join('；');
+        const more = report.issues.length > 5 ? ` 等 ${report.issues.length} 处问题` : '';
+        setMessage({ ok: false, text: `导入失败，文件未做任何修改。${preview}${more}` });
+      } else {
+        setMessage({ ok: true, text: `导入完成：新增 ${report.added} 条，跳过重复 ${report.skipped} 条。` });
+      }
+    } catch (err: any) {
+      setMessage({ ok: false, text: `无法解析文件：${err.message}` });
+    }
+  };
+
+  const handleExport = (format: LibraryFormat) => {
+    downloadText(`大承活法语录库.${format}`, exportLibrary(format), FORMAT_MIME[format]);
+  };
+
+  const handleReset = () => {
+    if (window.confirm(`确定删除本地导入的 ${importedCount} 条语录，恢复为内置语录库吗？`)) {
+      clearImportedQuotes();
+      setMessage({ ok: true, text: '已恢复内置语录库。' });
+    }
+  };
+
+  return (
+    <div className="max-w-xl mx-auto space-y-2">
+      <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+        <span className="text-slate-400">共 {library.length} 条{importedCount > 0 && `（含导入 ${importedCount} 条）`}</span>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 rounded-full bg-white border border-rose-100 text-rose-500 font-bold hover:border-rose-300 transition-all"
+        >
+          导入语录
+        </button>
+        {FORMATS.map(f => (
+          <button
+            key={f.id}
+            onClick={() => handleExport(f.id)}
+            className="px-3 py-1.5 rounded-full bg-white border border-purple-100 text-purple-500 font-bold hover:border-purple-300 transition-all"
+          >
+            导出 {f.label}
+          </button>
+        ))}
+        {importedCount > 0 && (
+          <button
+            onClick={handleReset}
+            className="px-3 py-1.5 rounded-full text-slate-400 hover:text-rose-500 transition-colors"
+          >
+            恢复内置
+          </button>
+        )}
+        <input
+          type="file"
+          ref={fileInputRef}
+          onChange={handleFile}
+          accept=".json,.csv,.md,.markdown"
+          className="hidden"
+        />
+      </div>
+      {message && (
+        <p className={`text-center text-xs ${message.ok ? 'text-green-600' : 'text-rose-500'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+
+interface ModalProps {
+  title: string;
+  onClose: () => void;
+  children: React.ReactNode;
+  maxWidth?: string; // Tailwind max-w-* class
+}
+
+// Rendered into <body> so transformed ancestors (e.g. hovering cards) don't trap `fixed` positioning
+export const Modal: React.FC<ModalProps> = ({ title, onClose, children, maxWidth = 'max-w-lg' }) => {
+  return createPortal(
+    <div className="fixed inset-0 z-[60] bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className={`bg-white rounded-3xl p-6 w-full ${maxWidth} shadow-2xl space-y-5 max-h-[95vh] overflow-y-auto`} onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="font-serif-sc font-bold text-lg text-slate-700">{title}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-rose-500 text-xl leading-none">×</button>
+        </div>
+        {children}
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { POSTER_TEMPLATES, PosterAspect, PosterTemplateId, PosterContent, ensurePosterFonts, renderPoster } from '../utils/poster';
+import { downloadBlob } from '../utils/download';
+import { Modal } from './Modal';
+
+interface PosterDialogProps {
+  content: PosterContent;
+  onClose: () => void;
+}
+
+const ASPECTS: { id: PosterAspect; label: string }[] = [
+  { id: '1:1', label: '1:1 朋友圈' },
+  { id: '3:4', label: '3:4 小红书' },
+  { id: '9:16', label: '9:16 竖屏' }
+];
+
+export const PosterDialog: React.FC<PosterDialogProps> = ({ content, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [templateId, setTemplateId] = useState<PosterTemplateId>('rose');
+  const [aspect, setAspect] = useState<PosterAspect>('3:4');
+  const [rendering, setRendering] = useState(true);
+  // The text didn't fit even at the smallest readable size and was cut
+  const [truncated, setTruncated] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    const template = POSTER_TEMPLATES.find(t => t.id === templateId) || POSTER_TEMPLATES[0];
+    setRendering(true);
+    ensurePosterFonts(template).then(() => {
+      if (cancelled || !canvasRef.current) return;
+      setTruncated(renderPoster(canvasRef.current, content, template, aspect).truncated);
+      setRendering(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [content.text, content.tag, content.tags?.join('|'), content.brand, templateId, aspect]);
+
+  const handleDownload = () => {
+    canvasRef.current?.toBlob((blob) => {
+      if (blob) downloadBlob(`大承活法-${templateId}-${aspect.replace(':', 'x')}.png`, blob);
+    }, 'image/png');
+  };
+
+  return (
+    <Modal title="生成语录海报" onClose={onClose} maxWidth="max-w-2xl">
+      <div className="flex flex-wrap gap-2">
+        {POSTER_TEMPLATES.map(t => (
+          <button
+            key={t.id}
+            onClick={() => setTemplateId(t.id)}
+            className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${
+              templateId === t.id
+                ? 'bg-rose-500 text-white shadow-md shadow-rose-200'
+                : 'bg-white text-slate-500 border border-rose-100 hover:border-rose-300'
+            }`}
+          >
+            {t.label}
+          </button>
+        ))}
+        <div className="w-px bg-slate-200 mx-1"></div>
+        {ASPECTS.map(a => (
+          <button
+            key={a.id}
+            onClick={() => setAspect(a.id)}
+            className={`px-4 py-1.5 rounded-full text-xs font-bold transition-all ${
+              aspect === a.id
+                ? 'bg-purple-500 text-white shadow-md shadow-purple-200'
+                : 'bg-white text-slate-500 border border-purple-100 hover:border-purple-300'
+            }`}
+          >
+            {a.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="flex justify-center bg-slate-50 rounded-2xl p-4 relative">
+        <canvas ref={canvasRef} className="max-h-[55vh] max-w-full h-auto w-auto rounded-lg shadow-lg" />
+        {rendering && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-slate-400">正在加载字体...</div>
+        )}
+      </div>
+
+      {truncated && !rendering && (
+        <p className="text-xs text-rose-500 font-bold">
+          文字太长，当前尺寸放不下，海报末尾已截断。
+          {aspect !== '9:16' ? (
+            <button onClick={() => setAspect('9:16')} className="ml-1 underline hover:text-rose-600">改用 9:16 竖屏</button>
+          ) : '可以先精简文案再生成。'}
+        </p>
+      )}
+
+      <button
+        onClick={handleDownload}
+        disabled={rendering}
+        className="w-full py-3 rounded-xl bg-gradient-to-r from-rose-400 to-purple-500 text-white text-sm font-bold hover:shadow-lg transition-all disabled:opacity-50"
+      >
+        下载 PNG
+      </button>
+    </Modal>
+  );
+};
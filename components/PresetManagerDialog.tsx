@@ -0,0 +1,175 @@
+import React, { useState } from 'react';
+import { StylePreset, TargetDuration } from '../types';
+import { DURATION_OPTIONS } from '../utils/constants';
+import { usePresets } from '../hooks/usePresets';
+import { savePreset, deletePreset, selectPreset } from '../services/presetService';
+import { Modal } from './Modal';
+
+interface PresetManagerDialogProps {
+  onClose: () => void;
+}
+
+interface Draft {
+  id?: string;
+  name: string;
+  instructions: string;
+  samples: string[];
+  defaultDuration: TargetDuration;
+}
+
+const toDraft = (preset: StylePreset, copy = false): Draft => ({
+  id: copy ? undefined : preset.id,
+  name: copy ? `${preset.name} 副本` : preset.name,
+  instructions: preset.instructions,
+  samples: preset.samples.length ? [...preset.samples] : [''],
+  defaultDuration: preset.defaultDuration
+});
+
+const EMPTY_DRAFT: Draft = { name: '', instructions: '', samples: [''], defaultDuration: '15s' };
+
+export const PresetManagerDialog: React.FC<PresetManagerDialogProps> = ({ onClose }) => {
+  const { presets, selected } = usePresets();
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const edit = (next: Draft) => {
+    setDraft(next);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    if (!draft.name.trim()) {
+      setError('请填写风格名称');
+      return;
+    }
+    if (!draft.instructions.trim()) {
+      setError('请填写人设与风格说明');
+      return;
+    }
+    try {
+      const saved = savePreset(draft);
+      selectPreset(saved.id);
+      setDraft(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const handleDelete = (preset: StylePreset) => {
+    if (window.confirm(`删除风格「${preset.name}」？`)) {
+      deletePreset(preset.id);
+      if (draft?.id === preset.id) setDraft(null);
+    }
+  };
+
+  const updateSample = (index: number, value: string) => {
+    if (!draft) return;
+    edit({ ...draft, samples: draft.samples.map((s, i) => i === index ? value : s) });
+  };
+
+  return (
+    <Modal title="写作风格" onClose={onClose} maxWidth="max-w-2xl">
+      <div className="space-y-2">
+        {presets.map(preset => (
+          <div
+            key={preset.id}
+            className={`flex items-center gap-3 px-4 py-3 rounded-xl border text-sm ${
+              preset.id === selected.id ? 'border-purple-300 bg-purple-50/60' : 'border-slate-100'
+            }`}
+          >
+            <button onClick={() => selectPreset(preset.id)} className="flex-1 text-left min-w-0">
+              <span className="font-bold text-slate-700">{preset.name}</span>
+              {preset.builtIn && <span className="ml-2 text-[10px] text-slate-400">内置</span>}
+              <span className="block text-xs text-slate-400 truncate">
+                {preset.samples.length} 篇参考范文 · 默认 {DURATION_OPTIONS.find(o => o.id === preset.defaultDuration)?.label}
+              </span>
+            </button>
+            <button onClick={() => edit(toDraft(preset, true))} className="text-xs text-slate-400 hover:text-purple-500">复制</button>
+            {!preset.builtIn && (
+              <>
+                <button onClick={() => edit(toDraft(preset))} className="text-xs text-slate-400 hover:text-purple-500">编辑</button>
+                <button onClick={() => handleDelete(preset)} className="text-xs text-slate-400 hover:text-rose-500">删除</button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="space-y-4 border-t border-slate-100 pt-4 text-xs text-slate-500">
+          <label className="block space-y-1">
+            <span className="font-bold">风格名称</span>
+            <input
+              value={draft.name}
+              onChange={(e) => edit({ ...draft, name: e.target.value })}
+              placeholder="例如：毒舌职场号"
+              className="w-full bg-rose-50/50 border border-rose-100 rounded-xl py-2 px-3 text-sm text-slate-700 focus:outline-none focus:border-purple-300"
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className="font-bold">人设与风格说明 (系统指令)</span>
+            <textarea
+              value={draft.instructions}
+              onChange={(e) => edit({ ...draft, instructions: e.target.value })}
+              rows={6}
+              placeholder="你是……，你的语录特点是：……"
+              className="w-full bg-rose-50/50 border border-rose-100 rounded-xl py-2 px-3 text-sm text-slate-700 focus:outline-none focus:border-purple-300"
+            />
+          </label>
+          <div className="space-y-2">
+            <span className="font-bold">参考范文 (模型会模仿其风格和力度)</span>
+            {draft.samples.map((sample, i) => (
+              <div key={i} className="flex gap-2">
+                <textarea
+                  value={sample}
+                  onChange={(e) => updateSample(i, e.target.value)}
+                  rows={3}
+                  className="flex-1 bg-rose-50/50 border border-rose-100 rounded-xl py-2 px-3 text-sm text-slate-700 focus:outline-none focus:border-purple-300"
+                />
+                <button
+                  onClick={() => edit({ ...draft, samples: draft.samples.filter((_, j) => j !== i) })}
+                  className="self-start text-slate-400 hover:text-rose-500 text-lg leading-none"
+                  title="删除这篇范文"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+            <button onClick={() => edit({ ...draft, samples: [...draft.samples, ''] })} className="font-bold text-purple-500 hover:text-purple-600">
+              + 添加范文
+            </button>
+          </div>
+          <div className="space-y-1">
+            <span className="font-bold">默认时长</span>
+            <div className="flex flex-wrap gap-2">
+              {DURATION_OPTIONS.map(opt => (
+                <button
+                  key={opt.id}
+                  onClick={() => edit({ ...draft, defaultDuration: opt.id })}
+                  className={`px-3 py-1 rounded-full border ${
+                    draft.defaultDuration === opt.id ? 'bg-purple-500 text-white border-purple-500' : 'border-slate-200 hover:border-purple-300'
+                  }`}
+                >
+                  {opt.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          {error && <p className="text-rose-500">{error}</p>}
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="px-4 py-2 rounded-full border border-slate-200 hover:border-slate-300">取消</button>
+            <button onClick={handleSave} className="px-4 py-2 rounded-full bg-purple-500 text-white font-bold hover:bg-purple-600">保存</button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => edit(EMPTY_DRAFT)}
+          className="w-full py-3 rounded-xl border border-dashed border-purple-200 text-sm font-bold text-purple-500 hover:bg-purple-50 transition-colors"
+        >
+          + 新建风格
+        </button>
+      )}
+    </Modal>
+  );
+};
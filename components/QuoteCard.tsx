@@ -1,18 +1,58 @@
 import React, { useState } from 'react';
-import { Quote } from '../types';
+import { Quote, QuoteSource, TargetDuration } from '../types';
+import { useCollection } from '../hooks/useCollection';
+import { useCompliance } from '../hooks/useCompliance';
+import { useReadingSpeed } from '../hooks/useReadingSpeed';
+import { SubtitleExportDialog } from './SubtitleExportDialog';
+import { PosterDialog } from './PosterDialog';
+import { ReadAloudDialog } from './ReadAloudDialog';
+import { APP_NAME } from '../utils/constants';
+import { checkLength, estimateReadSeconds, formatReadTime } from '../utils/length';
+import { TextRange } from '../utils/search';
+import { CATEGORY_LABELS, PLATFORM_LABELS, applySuggestions, flaggedTerms, splitWithFlags } from '../utils/compliance';
+import { buildQuoteUrl } from '../services/routeService';
 
 interface QuoteCardProps {
   quote: Quote;
   className?: string;
   isGenerated?: boolean;
+  source?: QuoteSource; // Defaults to the library entry for non-generated quotes
+  isStreaming?: boolean; // Text is still arriving: show it in full with a cursor, hide actions
+  targetDuration?: TargetDuration; // Enables subtitle export timed to this duration
+  highlights?: TextRange[]; // Search matches to mark in the text
+  onExpandedChange?: (expanded: boolean) => void;
+  readingSpeed?: number; // Characters per second for the read-time badge; defaults to the user's setting
+  onApplySuggestions?: (text: string) => void; // Offers 一键替换 for flagged wording, e.g. as a new version
 }
 
-export const QuoteCard: React.FC<QuoteCardProps> = ({ quote, className = "", isGenerated = false }) => {
+export const QuoteCard: React.FC<QuoteCardProps> = ({ quote, className = "", isGenerated = false, source, isStreaming = false, targetDuration, highlights, onExpandedChange, readingSpeed: speedOverride, onApplySuggestions }) => {
   const [copied, setCopied] = useState(false);
+  const [linkCopied, setLinkCopied] = useState(false);
   const [expanded, setExpanded] = useState(false);
+  const [showSubtitles, setShowSubtitles] = useState(false);
+  const [showPoster, setShowPoster] = useState(false);
+  const [showReadAloud, setShowReadAloud] = useState(false);
+  const { isFavorite, toggleFavorite } = useCollection();
+  const { settings: compliance, check } = useCompliance();
+  const [savedSpeed] = useReadingSpeed();
+  const readingSpeed = speedOverride ?? savedSpeed;
+
+  const favoriteSource: QuoteSource | undefined = source ?? (isGenerated ? undefined : { kind: 'library', quoteId: quote.id });
+  const favorited = isFavorite(quote.text);
+  // Undefined for generated quotes, which can't be opened from a link
+  const quoteUrl = favoriteSource ? buildQuoteUrl(favoriteSource) : undefined;
+
+  // Read time at the given pace; measured against the target when there is one
+  const lengthCheck = targetDuration ? checkLength(quote.text, targetDuration, readingSpeed) : null;
+  const readSeconds = lengthCheck ? lengthCheck.seconds : estimateReadSeconds(quote.text, readingSpeed);
+
+  // Restricted wording for the selected platform; checked once the text is complete
+  const flags = isStreaming ? [] : check(quote.text);
+  const flagged = flaggedTerms(flags);
+  const canApply = !!onApplySuggestions && flagged.some(t => t.suggestion !== undefined);
 
   // Check if text is long enough to need a toggle (e.g., > 150 chars)
-  const isLongText = quote.text.length > 200;
+  const isLongText = !isStreaming && quote.text.length > 200;
   
   // For generated content, we might default to expanded if it's the result, 
   // but for the library, we collapse.
@@ -25,8 +65,24 @@ export const QuoteCard: React.FC<QuoteCardProps> = ({ quote, className = "", isG
     setTimeout(() => setCopied(false), 2000);
   };
 
+  const handleCopyLink = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!quoteUrl) return;
+    navigator.clipboard.writeText(quoteUrl);
+    setLinkCopied(true);
+    setTimeout(() => setLinkCopied(false), 2000);
+  };
+
+  const handleFavorite = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (favoriteSource) {
+      toggleFavorite(quote.text, favoriteSource, quote.tags);
+    }
+  };
+
   const toggleExpand = () => {
     setExpanded(!expanded);
+    onExpandedChange?.(!expanded);
   };
 
   return (
@@ -47,9 +103,47 @@ export const QuoteCard: React.FC<QuoteCardProps> = ({ quote, className = "", isG
         <div className={`text-lg md:text-xl font-serif-sc leading-relaxed tracking-wide text-slate-700 text-justify whitespace-pre-wrap transition-all duration-500 ${
           !expanded && isLongText ? 'line-clamp-6 mask-linear-fade-bottom' : ''
         }`}>
-          {quote.text}
+          {highlights?.length || flags.length
+            ? splitWithFlags(quote.text, flags, highlights).map((piece, i) => {
+                if (piece.flag) {
+                  const { category, suggestion } = piece.flag.term;
+                  return (
+                    <span
+                      key={i}
+                      title={`${CATEGORY_LABELS[category]}${suggestion !== undefined ? `，建议改为「${suggestion}」` : ''}`}
+                      className={`underline decoration-wavy decoration-rose-400 underline-offset-4 ${piece.hit ? 'bg-amber-200/70 rounded' : ''}`}
+                    >
+                      {piece.text}
+                    </span>
+                  );
+                }
+                return piece.hit
+                  ? <mark key={i} className="bg-amber-200/70 text-slate-800 rounded px-0.5">{piece.text}</mark>
+                  : <React.Fragment key={i}>{piece.text}</React.Fragment>;
+              })
+            : quote.text}
+          {isStreaming && <span className="inline-block w-2 h-5 ml-0.5 align-middle bg-purple-400 animate-pulse"></span>}
         </div>
         
+        {flagged.length > 0 && compliance.platform && (
+          <div className="mt-3 flex flex-wrap items-center gap-1.5 text-[11px]" onClick={(e) => e.stopPropagation()}>
+            <span className="font-bold text-rose-400">{PLATFORM_LABELS[compliance.platform]}限流风险</span>
+            {flagged.map(term => (
+              <span key={term.term} title={CATEGORY_LABELS[term.category]} className="px-2 py-0.5 rounded-md bg-rose-50 text-rose-500">
+                {term.term}{term.suggestion !== undefined && ` → ${term.suggestion}`}
+              </span>
+            ))}
+            {canApply && (
+              <button
+                onClick={() => onApplySuggestions!(applySuggestions(quote.text, flags))}
+                className="px-2 py-0.5 rounded-md font-bold text-purple-500 hover:bg-purple-50 transition-colors"
+              >
+                一键替换
+              </button>
+            )}
+          </div>
+        )}
+
         {isLongText && (
           <button 
             onClick={(e) => { e.stopPropagation(); toggleExpand(); }}
@@ -72,43 +166,140 @@ export const QuoteCard: React.FC<QuoteCardProps> = ({ quote, className = "", isG
         )}
       </div>
 
-      <div className="mt-6 flex items-center justify-between border-t border-slate-100 pt-4">
-        <div className="flex gap-2">
-          <span className={`text-xs font-bold px-2 py-1 rounded-md bg-opacity-10 ${
-            isGenerated 
-              ? 'bg-purple-500 text-purple-500' 
-              : 'bg-rose-500 text-rose-500'
-          }`}>
-            {isGenerated ? '#AI二创' : '#大承活法'}
-          </span>
-          {quote.category && (
-             <span className="text-xs font-medium px-2 py-1 rounded-md bg-slate-100 text-slate-500">
-               {quote.category}
-             </span>
-          )}
-        </div>
+      {!isStreaming && (
+        <div className="mt-6 flex flex-wrap gap-3 items-center justify-between border-t border-slate-100 pt-4">
+          <div className="flex flex-wrap gap-2">
+            <span className={`text-xs font-bold px-2 py-1 rounded-md bg-opacity-10 ${
+              isGenerated 
+                ? 'bg-purple-500 text-purple-500' 
+                : 'bg-rose-500 text-rose-500'
+            }`}>
+              {isGenerated ? '#AI二创' : '#大承活法'}
+            </span>
+            <span
+              title={lengthCheck ? `${lengthCheck.chars} 字，目标约 ${lengthCheck.target} 字（${readingSpeed} 字/秒）` : `按 ${readingSpeed} 字/秒估算`}
+              className={`text-xs font-mono px-2 py-1 rounded-md ${
+                lengthCheck && lengthCheck.verdict !== 'ok' ? 'bg-amber-50 text-amber-600' : 'bg-slate-100 text-slate-500'
+              }`}
+            >
+              ≈{formatReadTime(readSeconds)}
+              {lengthCheck?.verdict === 'short' && ' · 偏短'}
+              {lengthCheck?.verdict === 'long' && ' · 偏长'}
+            </span>
+            {quote.tags.map(tag => (
+               <span key={tag} className="text-xs font-medium px-2 py-1 rounded-md bg-slate-100 text-slate-500">
+                 {tag}
+               </span>
+            ))}
+          </div>
         
-        <button 
-          onClick={handleCopy}
-          className={`text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full ${
-            copied 
-              ? 'bg-green-100 text-green-600'
-              : 'bg-slate-50 text-slate-400 hover:bg-slate-100 hover:text-slate-600'
-          }`}
-        >
-          {copied ? (
-            <>
-              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>
-              已复制
-            </>
-          ) : (
-            <>
-              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>
-              复制文案
-            </>
-          )}
-        </button>
-      </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={(e) => { e.stopPropagation(); setShowReadAloud(true); }}
+              title="朗读预览，检查是否超时"
+              className="text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full bg-slate-50 text-slate-400 hover:bg-purple-50 hover:text-purple-500"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon><path d="M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07"></path></svg>
+              朗读
+            </button>
+            <button
+              onClick={(e) => { e.stopPropagation(); setShowPoster(true); }}
+              title="生成图片海报"
+              className="text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full bg-slate-50 text-slate-400 hover:bg-rose-50 hover:text-rose-500"
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="3" y="3" width="18" height="18" rx="2" ry="2"></rect><circle cx="8.5" cy="8.5" r="1.5"></circle><polyline points="21 15 16 10 5 21"></polyline></svg>
+              海报
+            </button>
+            {targetDuration && (
+              <button
+                onClick={(e) => { e.stopPropagation(); setShowSubtitles(true); }}
+                title="导出 SRT/VTT 字幕"
+                className="text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full bg-slate-50 text-slate-400 hover:bg-purple-50 hover:text-purple-500"
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="2" y="4" width="20" height="16" rx="2" ry="2"></rect><line x1="6" y1="12" x2="10" y2="12"></line><line x1="14" y1="12" x2="18" y2="12"></line><line x1="6" y1="16" x2="14" y2="16"></line></svg>
+                字幕
+              </button>
+            )}
+            {favoriteSource && (
+              <button
+                onClick={handleFavorite}
+                title={favorited ? '取消收藏' : '收藏'}
+                className={`text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full ${
+                  favorited
+                    ? 'bg-rose-100 text-rose-500'
+                    : 'bg-slate-50 text-slate-400 hover:bg-rose-50 hover:text-rose-400'
+                }`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill={favorited ? 'currentColor' : 'none'} stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M20.84 4.61a5.5 5.5 0 0 0-7.78 0L12 5.67l-1.06-1.06a5.5 5.5 0 0 0-7.78 7.78l1.06 1.06L12 21.23l7.78-7.78 1.06-1.06a5.5 5.5 0 0 0 0-7.78z"></path></svg>
+                {favorited ? '已收藏' : '收藏'}
+              </button>
+            )}
+            {quoteUrl && (
+              <button
+                onClick={handleCopyLink}
+                title="复制打开这条语录的链接"
+                className={`text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full ${
+                  linkCopied
+                    ? 'bg-green-100 text-green-600'
+                    : 'bg-slate-50 text-slate-400 hover:bg-indigo-50 hover:text-indigo-500'
+                }`}
+              >
+                <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M10 13a5 5 0 0 0 7.54.54l3-3a5 5 0 0 0-7.07-7.07l-1.72 1.71"></path><path d="M14 11a5 5 0 0 0-7.54-.54l-3 3a5 5 0 0 0 7.07 7.07l1.71-1.71"></path></svg>
+                {linkCopied ? '链接已复制' : '链接'}
+              </button>
+            )}
+            <button 
+              onClick={handleCopy}
+              className={`text-xs flex items-center gap-1.5 transition-all px-3 py-1.5 rounded-full ${
+                copied 
+                  ? 'bg-green-100 text-green-600'
+                  : 'bg-slate-50 text-slate-400 hover:bg-slate-100 hover:text-slate-600'
+              }`}
+            >
+              {copied ? (
+                <>
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="20 6 9 17 4 12"></polyline></svg>
+                  已复制
+                </>
+              ) : (
+                <>
+                  <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><rect x="9" y="9" width="13" height="13" rx="2" ry="2"></rect><path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"></path></svg>
+                  复制文案
+                </>
+              )}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {showReadAloud && (
+        <ReadAloudDialog
+          text={quote.text}
+          targetDuration={targetDuration}
+          onClose={() => setShowReadAloud(false)}
+        />
+      )}
+
+      {showPoster && (
+        <PosterDialog
+          content={{
+            text: quote.text,
+            tag: isGenerated ? '#AI二创' : `#${APP_NAME}`,
+            tags: quote.tags,
+            brand: quote.author || APP_NAME
+          }}
+          onClose={() => setShowPoster(false)}
+        />
+      )}
+
+      {showSubtitles && targetDuration && (
+        <SubtitleExportDialog
+          texts={[quote.text]}
+          targetDuration={targetDuration}
+          fileBaseName={`语录字幕-${targetDuration}`}
+          onClose={() => setShowSubtitles(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,101 @@
+import React, { useState, useMemo } from 'react';
+import { useCollection } from '../hooks/useCollection';
+import { QuoteCard } from './QuoteCard';
+import { CollectedQuote } from '../types';
+
+const formatSavedAt = (ts: number) => {
+  const d = new Date(ts);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const describeSource = (item: CollectedQuote) => {
+  if (item.source.kind === 'library') {
+    return '来自经典语录';
+  }
+  const parts: string[] = [];
+  if (item.source.fileName) parts.push(`视频: ${item.source.fileName}`);
+  if (item.source.topic) parts.push(`主题: ${item.source.topic}`);
+  if (item.source.presetName) parts.push(`风格: ${item.source.presetName}`);
+  parts.push(`时长: ${item.source.targetDuration}`);
+  return parts.join(' · ');
+};
+
+export const QuoteCollection: React.FC = () => {
+  const { items, remove } = useCollection();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const displayItems = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return items;
+    return items.filter(item =>
+      item.text.toLowerCase().includes(term) ||
+      describeSource(item).toLowerCase().includes(term)
+    );
+  }, [items, searchTerm]);
+
+  return (
+    <div className="space-y-8 animate-fade-in relative min-h-[600px]">
+      <div className="text-center space-y-4 pt-4">
+        <h2 className="text-3xl md:text-5xl font-serif-sc font-bold text-slate-800 tracking-tight">
+          <span className="bg-clip-text text-transparent bg-gradient-to-r from-rose-500 via-purple-500 to-indigo-500 tech-text-glow">
+            我的收藏
+          </span>
+        </h2>
+        <p className="text-slate-500 max-w-xl mx-auto font-light">
+          收藏的经典语录与AI二创结果，保存在本地浏览器中。<br/>
+          <span className="text-xs text-rose-400 opacity-80">共 {items.length} 条</span>
+        </p>
+      </div>
+
+      {/* Search */}
+      <div className="max-w-md mx-auto relative group z-10">
+        <div className="absolute -inset-0.5 bg-gradient-to-r from-rose-300 to-purple-300 rounded-full opacity-30 group-hover:opacity-60 transition duration-500 blur"></div>
+        <input 
+          type="text" 
+          placeholder="搜索收藏内容、视频名或主题..." 
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          className="relative w-full bg-white border border-rose-100 text-slate-600 placeholder-slate-400 rounded-full py-3.5 px-6 focus:outline-none focus:ring-2 focus:ring-rose-200 transition-all shadow-sm"
+        />
+        <div className="absolute right-4 top-1/2 -translate-y-1/2 text-rose-300 pointer-events-none">
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="11" cy="11" r="8"></circle><line x1="21" y1="21" x2="16.65" y2="16.65"></line></svg>
+        </div>
+      </div>
+
+      {/* List */}
+      <div className="grid grid-cols-1 gap-6 pb-12">
+        {displayItems.length > 0 ? (
+          displayItems.map((item) => (
+            <div key={item.id} className="space-y-2">
+              <div className="flex items-center justify-between px-2 text-xs text-slate-400">
+                <span className="truncate">{describeSource(item)} · {formatSavedAt(item.savedAt)}</span>
+                <button
+                  onClick={() => remove(item.id)}
+                  className="flex-shrink-0 ml-2 px-2 py-1 rounded-md text-slate-400 hover:text-rose-500 hover:bg-rose-50 transition-colors flex items-center gap-1"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>
+                  删除
+                </button>
+              </div>
+              <QuoteCard
+                quote={{ id: item.savedAt, text: item.text, tags: item.tags }}
+                isGenerated={item.source.kind === 'generated'}
+                source={item.source}
+                targetDuration={item.source.kind === 'generated' ? item.source.targetDuration : undefined}
+              />
+            </div>
+          ))
+        ) : (
+          <div className="col-span-full text-center py-20 text-slate-400 bg-white/50 rounded-3xl border border-dashed border-rose-200">
+            {items.length === 0 ? (
+              <p>还没有收藏任何语录，<br/>去经典语录或视频二创里点一下“收藏”吧。</p>
+            ) : (
+              <p>没有找到匹配的收藏。</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
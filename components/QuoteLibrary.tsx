@@ -1,62 +1,107 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { BUILT_IN_QUOTES, CATEGORIES } from '../utils/constants';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CATEGORIES } from '../utils/constants';
 import { QuoteCard } from './QuoteCard';
-import { Quote, Category } from '../types';
+import { LibraryTransfer } from './LibraryTransfer';
+import { useLibrary } from '../hooks/useLibrary';
+import { Category, ViewState } from '../types';
+import { ALL_TAG, isKnownTag } from '../utils/tags';
+import { buildSearchIndex, searchQuotes } from '../utils/search';
+import { useRotation, useRotationSettings, ROTATION_INTERVALS } from '../hooks/useRotation';
+import { pickQuoteOfTheDay, todayKey } from '../utils/rotation';
+import { BUILT_IN_QUOTES } from '../services/libraryService';
+import { useRoute } from '../hooks/useRoute';
+import { navigate } from '../services/routeService';
+
+const PAGE_SIZE = 8;
+
+const formatInterval = (seconds: number) =>
+  !seconds ? '不自动切换' : seconds < 60 ? `每 ${seconds} 秒` : `每 ${seconds / 60} 分钟`;
 
 export const QuoteLibrary: React.FC = () => {
-  const [searchTerm, setSearchTerm] = useState('');
-  const [selectedCategory, setSelectedCategory] = useState<Category>('全部');
-  const [visibleQuotes, setVisibleQuotes] = useState<Quote[]>([]);
-  const [timeRemaining, setTimeRemaining] = useState(120); // 2 minutes in seconds
-
-  // Function to get random quotes, respecting category
-  const refreshQuotes = useCallback(() => {
-    let pool = BUILT_IN_QUOTES;
-    
-    // Filter by category first if not 'All'
-    if (selectedCategory !== '全部') {
-      pool = BUILT_IN_QUOTES.filter(q => q.category === selectedCategory);
-    }
+  const library = useLibrary();
+  const route = useRoute();
+  // Category, search and a shared quote come from the URL (#/?category=&q=, #/quote/:id)
+  const selectedCategory: Category = route.category && isKnownTag(route.category) ? route.category : ALL_TAG;
+  const searchTerm = route.query || '';
+  const sharedQuote = route.quoteId !== undefined ? library.find(q => q.id === route.quoteId) : undefined;
+  const sharedRef = useRef<HTMLDivElement>(null);
+  const { intervalSeconds, mode, setIntervalSeconds, setMode } = useRotationSettings();
+  const [hovering, setHovering] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<number>>(new Set());
+
+  const pool = useMemo(
+    () => selectedCategory === ALL_TAG ? library : library.filter(q => q.tags.includes(selectedCategory)),
+    [library, selectedCategory]
+  );
+
+  // Reading a card (pointer over the grid or a card expanded) holds the current page
+  const paused = hovering || expandedIds.size > 0;
+  const { visible: visibleQuotes, timeRemaining, next: refreshQuotes } = useRotation(pool, {
+    pageSize: PAGE_SIZE,
+    intervalSeconds: mode === 'daily' ? 0 : intervalSeconds,
+    paused: paused || !!searchTerm
+  });
+
+  // Expanded state belongs to the cards on screen; a new page starts collapsed
+  useEffect(() => {
+    setExpandedIds(new Set());
+  }, [visibleQuotes]);
+
+  const handleExpandedChange = (id: number, expanded: boolean) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (expanded) next.add(id); else next.delete(id);
+      return next;
+    });
+  };
+
+  // Drawn from the built-in quotes only, so everyone sees the same one whatever they imported
+  const day = todayKey();
+  const quoteOfTheDay = useMemo(() => pickQuoteOfTheDay(BUILT_IN_QUOTES, day), [day]);
 
-    // Fisher-Yates shuffle algorithm for true randomness
-    const shuffled = [...pool].sort(() => 0.5 - Math.random());
-    
-    // Select top 8 quotes for display (or fewer if pool is small)
-    setVisibleQuotes(shuffled.slice(0, 8));
-    setTimeRemaining(120); // Reset timer
-  }, [selectedCategory]);
+  // Quotes per tab; a quote counts towards every tag it carries
+  const tagCounts = useMemo(() => {
+    const counts = new Map<Category, number>([[ALL_TAG, library.length]]);
+    library.forEach(q => q.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return counts;
+  }, [library]);
 
-  // Handle category change
+  // Handle category change; the rotation starts a new cycle for the new pool
   const handleCategoryChange = (cat: Category) => {
-    setSelectedCategory(cat);
-    // When category changes, immediately refresh to show relevant quotes
-    // Effect will trigger refreshQuotes due to dependency
+    navigate({ view: ViewState.LIBRARY, category: cat === ALL_TAG ? undefined : cat, query: route.query });
   };
 
-  // Initial load and when category changes
-  useEffect(() => {
-    refreshQuotes();
-  }, [refreshQuotes]);
+  // Typing replaces the current history entry instead of adding one per keystroke
+  const setSearchTerm = (value: string) => {
+    navigate({ view: ViewState.LIBRARY, category: route.category, query: value || undefined }, { replace: true });
+  };
+
+  const closeSharedQuote = () => {
+    navigate({ view: ViewState.LIBRARY, category: route.category, query: route.query });
+  };
 
-  // Timer logic
   useEffect(() => {
-    const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        if (prev <= 1) {
-          refreshQuotes();
-          return 120;
-        }
-        return prev - 1;
-      });
-    }, 1000);
-
-    return () => clearInterval(timer);
-  }, [refreshQuotes]);
-
-  // Filter visible quotes if searching, otherwise show the random subset
-  const displayQuotes = searchTerm 
-    ? BUILT_IN_QUOTES.filter(q => q.text.toLowerCase().includes(searchTerm.toLowerCase()))
-    : visibleQuotes;
+    if (route.quoteId !== undefined) {
+      sharedRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [route.quoteId]);
+
+  // Pinyin for every quote is worked out once per library change, not per keystroke
+  const searchIndex = useMemo(() => buildSearchIndex(library), [library]);
+
+  // Ranked matches within the active category while searching, otherwise the random subset
+  const searchHits = useMemo(
+    () => searchTerm.trim()
+      ? searchQuotes(searchIndex, searchTerm, selectedCategory === ALL_TAG ? undefined : selectedCategory)
+      : null,
+    [searchIndex, searchTerm, selectedCategory]
+  );
+  const displayQuotes = searchHits
+    ? searchHits.map(hit => hit.quote)
+    : mode === 'daily'
+      ? (quoteOfTheDay ? [quoteOfTheDay] : [])
+      : visibleQuotes;
+  const highlightsById = new Map(searchHits?.map(hit => [hit.quote.id, hit.ranges]));
 
   return (
     <div className="space-y-8 animate-fade-in relative min-h-[600px]">
@@ -74,17 +119,47 @@ export const QuoteLibrary: React.FC = () => {
           
           {/* Refresh Timer / Button */}
           {!searchTerm && (
-             <div className="flex items-center gap-3 mt-2 bg-white/60 backdrop-blur-sm px-4 py-1.5 rounded-full border border-purple-100 shadow-sm">
-               <span className="text-xs text-slate-400 font-mono">
-                 下次刷新: {Math.floor(timeRemaining / 60)}:{(timeRemaining % 60).toString().padStart(2, '0')}
-               </span>
-               <button 
-                 onClick={refreshQuotes}
-                 className="text-xs font-bold text-purple-500 hover:text-purple-600 flex items-center gap-1 transition-colors"
-               >
-                 <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="animate-spin-slow hover:animate-spin"><path d="M21.5 2v6h-6M2.5 22v-6h6M2 11.5a10 10 0 0 1 18.8-4.3M22 12.5a10 10 0 0 1-18.8 4.3"/></svg>
-                 立即刷新
-               </button>
+             <div className="flex flex-wrap items-center justify-center gap-3 mt-2 bg-white/60 backdrop-blur-sm px-4 py-1.5 rounded-full border border-purple-100 shadow-sm">
+               <div className="flex rounded-full bg-slate-100 p-0.5 text-xs font-bold">
+                 {([['shuffle', '随机轮播'], ['daily', '今日一句']] as const).map(([value, label]) => (
+                   <button
+                     key={value}
+                     onClick={() => setMode(value)}
+                     className={`px-3 py-0.5 rounded-full transition-colors ${mode === value ? 'bg-white text-purple-500 shadow-sm' : 'text-slate-400 hover:text-purple-400'}`}
+                   >
+                     {label}
+                   </button>
+                 ))}
+               </div>
+               {mode === 'daily' ? (
+                 <span className="text-xs text-slate-400 font-mono">{day}</span>
+               ) : (
+                 <>
+                   <span className="text-xs text-slate-400 font-mono">
+                     {!intervalSeconds
+                       ? '自动切换已关闭'
+                       : paused
+                         ? '阅读中 · 已暂停'
+                         : `下次刷新: ${Math.floor(timeRemaining / 60)}:${(timeRemaining % 60).toString().padStart(2, '0')}`}
+                   </span>
+                   <select
+                     value={intervalSeconds}
+                     onChange={(e) => setIntervalSeconds(Number(e.target.value))}
+                     className="text-xs text-slate-500 bg-transparent focus:outline-none cursor-pointer"
+                   >
+                     {ROTATION_INTERVALS.map(seconds => (
+                       <option key={seconds} value={seconds}>{formatInterval(seconds)}</option>
+                     ))}
+                   </select>
+                   <button 
+                     onClick={refreshQuotes}
+                     className="text-xs font-bold text-purple-500 hover:text-purple-600 flex items-center gap-1 transition-colors"
+                   >
+                     <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="animate-spin-slow hover:animate-spin"><path d="M21.5 2v6h-6M2.5 22v-6h6M2 11.5a10 10 0 0 1 18.8-4.3M22 12.5a10 10 0 0 1-18.8 4.3"/></svg>
+                     立即刷新
+                   </button>
+                 </>
+               )}
              </div>
           )}
         </div>
@@ -93,19 +168,26 @@ export const QuoteLibrary: React.FC = () => {
       {/* Category Tabs - Scrollable */}
       <div className="relative group/scroll max-w-4xl mx-auto">
          <div className="flex gap-2 overflow-x-auto pb-2 hide-scrollbar flex-nowrap mask-linear-fade justify-start md:justify-center">
-            {CATEGORIES.map((cat) => (
-              <button
-                key={cat}
-                onClick={() => handleCategoryChange(cat)}
-                className={`flex-shrink-0 px-4 py-2 rounded-full text-sm font-bold transition-all duration-300 whitespace-nowrap ${
-                  selectedCategory === cat
-                    ? 'bg-rose-500 text-white shadow-lg shadow-rose-200 transform scale-105'
-                    : 'bg-white text-slate-500 border border-rose-100 hover:border-rose-300 hover:text-rose-500'
-                }`}
-              >
-                {cat}
-              </button>
-            ))}
+            {CATEGORIES.map((cat) => {
+              const count = tagCounts.get(cat) || 0;
+              return (
+                <button
+                  key={cat}
+                  onClick={() => handleCategoryChange(cat)}
+                  title={count ? `${count} 条语录` : '暂无语录'}
+                  className={`flex-shrink-0 px-4 py-2 rounded-full text-sm font-bold transition-all duration-300 whitespace-nowrap ${
+                    selectedCategory === cat
+                      ? 'bg-rose-500 text-white shadow-lg shadow-rose-200 transform scale-105'
+                      : count
+                        ? 'bg-white text-slate-500 border border-rose-100 hover:border-rose-300 hover:text-rose-500'
+                        : 'bg-white/50 text-slate-300 border border-dashed border-slate-200'
+                  }`}
+                >
+                  {cat}
+                  <span className={`ml-1.5 text-xs font-mono ${selectedCategory === cat ? 'text-rose-100' : 'text-slate-300'}`}>{count}</span>
+                </button>
+              );
+            })}
          </div>
       </div>
 
@@ -114,7 +196,7 @@ export const QuoteLibrary: React.FC = () => {
         <div className="absolute -inset-0.5 bg-gradient-to-r from-rose-300 to-purple-300 rounded-full opacity-30 group-hover:opacity-60 transition duration-500 blur"></div>
         <input 
           type="text" 
-          placeholder="搜索关键词... (搜索时暂停自动刷新)" 
+          placeholder="搜索关键词、拼音或首字母... (搜索时暂停自动刷新)" 
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="relative w-full bg-white border border-rose-100 text-slate-600 placeholder-slate-400 rounded-full py-3.5 px-6 focus:outline-none focus:ring-2 focus:ring-rose-200 transition-all shadow-sm"
@@ -124,11 +206,49 @@ export const QuoteLibrary: React.FC = () => {
         </div>
       </div>
 
+      {searchHits && (
+        <p className="text-center text-xs text-slate-400 -mt-4">
+          {selectedCategory === ALL_TAG ? '全部语录' : `「${selectedCategory}」`}中找到 {searchHits.length} 条，按匹配度排序
+        </p>
+      )}
+
+      <LibraryTransfer />
+
+      {route.quoteId !== undefined && (
+        <div ref={sharedRef} className="space-y-2">
+          <div className="flex items-center justify-between px-2 text-xs text-slate-400">
+            <span>分享的语录 #{route.quoteId}</span>
+            <button onClick={closeSharedQuote} className="px-2 py-1 rounded-md hover:text-rose-500 hover:bg-rose-50 transition-colors">
+              关闭
+            </button>
+          </div>
+          {sharedQuote ? (
+            <QuoteCard quote={sharedQuote} className="ring-2 ring-purple-300" />
+          ) : (
+            <div className="text-center py-8 text-sm text-slate-400 bg-white/50 rounded-3xl border border-dashed border-rose-200">
+              没有找到这条语录，它可能是别人导入的，不在你的语录库里。
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Grid */}
-      <div className="grid grid-cols-1 gap-6 pb-12">
+      <div
+        className="grid grid-cols-1 gap-6 pb-12"
+        onMouseEnter={() => setHovering(true)}
+        onMouseLeave={() => setHovering(false)}
+      >
+        {!searchTerm && mode === 'daily' && quoteOfTheDay && (
+          <div className="text-center text-xs font-bold text-purple-400 tracking-widest -mb-3">今日一句 · {day}</div>
+        )}
         {displayQuotes.length > 0 ? (
           displayQuotes.map((quote) => (
-            <QuoteCard key={quote.id} quote={quote} />
+            <QuoteCard
+              key={quote.id}
+              quote={quote}
+              highlights={highlightsById.get(quote.id)}
+              onExpandedChange={(expanded) => handleExpandedChange(quote.id, expanded)}
+            />
           ))
         ) : (
           <div className="col-span-full text-center py-20 text-slate-400 bg-white/50 rounded-3xl border border-dashed border-rose-200">
@@ -137,9 +257,9 @@ export const QuoteLibrary: React.FC = () => {
         )}
       </div>
       
-      {!searchTerm && (
+      {!searchTerm && mode === 'shuffle' && (
         <div className="text-center text-xs text-rose-300/50 pb-8 animate-pulse">
-          系统将自动每 2 分钟切换不同语录 · 当前分类: {selectedCategory}
+          {intervalSeconds ? `系统将${formatInterval(intervalSeconds)}切换不同语录，看完全部才会重复` : '自动切换已关闭'} · 当前分类: {selectedCategory}
         </div>
       )}
     </div>
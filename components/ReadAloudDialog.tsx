@@ -0,0 +1,129 @@
+import React, { useMemo, useState } from 'react';
+import { TargetDuration } from '../types';
+import { TARGET_DURATION_SECONDS } from '../utils/constants';
+import { splitSentences, countReadableChars } from '../utils/text';
+import { formatSeconds } from '../utils/time';
+import { useSpeech, useChineseVoices } from '../hooks/useSpeech';
+import { useReadingSpeed } from '../hooks/useReadingSpeed';
+import { Modal } from './Modal';
+
+interface ReadAloudDialogProps {
+  text: string;
+  targetDuration?: TargetDuration;
+  onClose: () => void;
+}
+
+export const ReadAloudDialog: React.FC<ReadAloudDialogProps> = ({ text, targetDuration, onClose }) => {
+  const sentences = useMemo(() => splitSentences(text), [text]);
+  const voices = useChineseVoices();
+  const [voiceURI, setVoiceURI] = useState('');
+  const [rate, setRate] = useState(1);
+  const [readingSpeed] = useReadingSpeed();
+  const { supported, speaking, paused, currentIndex, elapsed, speak, pause, resume, stop } = useSpeech(sentences);
+
+  const targetSeconds = targetDuration ? TARGET_DURATION_SECONDS[targetDuration] : null;
+  // Rough forecast before playback; the real number comes from the clock
+  const estimatedSeconds = countReadableChars(text) / (readingSpeed * rate);
+  const overTarget = targetSeconds !== null && elapsed > targetSeconds;
+
+  const handlePlay = () => {
+    if (speaking && paused) {
+      resume();
+    } else if (speaking) {
+      pause();
+    } else {
+      speak({ rate, voice: voices.find(v => v.voiceURI === voiceURI) });
+    }
+  };
+
+  return (
+    <Modal title="朗读预览" onClose={onClose}>
+      {!supported ? (
+        <p className="text-sm text-rose-500">当前浏览器不支持语音合成，请使用最新版 Chrome / Edge / Safari。</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4 text-xs text-slate-500">
+            <label className="space-y-1">
+              <span className="font-bold">语速 ×{rate.toFixed(1)}</span>
+              <input
+                type="range" min={0.5} max={2} step={0.1}
+                value={rate}
+                disabled={speaking}
+                onChange={(e) => setRate(Number(e.target.value))}
+                className="w-full accent-purple-500"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="font-bold">声音</span>
+              <select
+                value={voiceURI}
+                disabled={speaking}
+                onChange={(e) => setVoiceURI(e.target.value)}
+                className="w-full bg-rose-50/50 border border-rose-100 rounded-lg py-1.5 px-2 text-slate-600"
+              >
+                <option value="">系统默认 (zh-CN)</option>
+                {voices.map(v => (
+                  <option key={v.voiceURI} value={v.voiceURI}>{v.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          {/* Elapsed vs target */}
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-xs font-mono">
+              <span className={overTarget ? 'text-rose-500 font-bold' : 'text-slate-500'}>
+                {formatSeconds(elapsed)}
+                {targetSeconds !== null && ` / ${formatSeconds(targetSeconds, 0)}`}
+              </span>
+              <span className="text-slate-400">预计 {formatSeconds(estimatedSeconds, 0)}</span>
+            </div>
+            {targetSeconds !== null && (
+              <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div
+                  className={`h-full transition-all duration-200 ${overTarget ? 'bg-rose-500' : 'bg-gradient-to-r from-rose-400 to-purple-500'}`}
+                  style={{ width: `${Math.min(100, (elapsed / targetSeconds) * 100)}%` }}
+                ></div>
+              </div>
+            )}
+            {overTarget && (
+              <p className="text-[10px] text-rose-500 font-bold">已超出目标时长 {formatSeconds(elapsed - targetSeconds!, 0)}，文案偏长。</p>
+            )}
+          </div>
+
+          {/* Karaoke text */}
+          <div className="bg-slate-50 rounded-xl p-4 max-h-72 overflow-y-auto font-serif-sc text-base leading-relaxed text-slate-500">
+            {sentences.map((sentence, idx) => (
+              <span
+                key={idx}
+                className={`transition-colors duration-200 ${
+                  idx === currentIndex
+                    ? 'bg-purple-100 text-purple-700 rounded px-0.5'
+                    : idx < currentIndex ? 'text-slate-700' : ''
+                }`}
+              >
+                {sentence}
+              </span>
+            ))}
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              onClick={handlePlay}
+              className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-rose-400 to-purple-500 text-white text-sm font-bold hover:shadow-lg transition-all"
+            >
+              {!speaking ? '开始朗读' : paused ? '继续' : '暂停'}
+            </button>
+            <button
+              onClick={stop}
+              disabled={!speaking}
+              className="flex-1 py-2.5 rounded-xl bg-white border border-purple-200 text-purple-500 text-sm font-bold hover:bg-purple-50 transition-all disabled:opacity-50"
+            >
+              停止
+            </button>
+          </div>
+        </>
+      )}
+    </Modal>
+  );
+};
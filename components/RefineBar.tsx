@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { REFINEMENTS } from '../services/quoteService';
+import { describeGenerationError, toGenerationError } from '../services/errors';
+
+interface RefineBarProps {
+  versionCount: number;
+  activeVersion: number;
+  onSelectVersion: (version: number) => void;
+  onRefine: (instruction: string) => Promise<void>; // Resolves once the new version is in
+}
+
+// Per-card rewrite actions under a generated quote, plus a switcher between its versions
+export const RefineBar: React.FC<RefineBarProps> = ({ versionCount, activeVersion, onSelectVersion, onRefine }) => {
+  const [busy, setBusy] = useState<string | null>(null); // Instruction being applied
+  const [customEdit, setCustomEdit] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (instruction: string) => {
+    if (busy || !instruction.trim()) return;
+    setBusy(instruction);
+    setError(null);
+    try {
+      await onRefine(instruction.trim());
+      if (instruction === customEdit) setCustomEdit('');
+    } catch (err) {
+      console.error(err);
+      // A single short quote never hits the video-specific failures, so no video hint
+      setError(describeGenerationError(toGenerationError(err), false).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="px-2 space-y-1.5 text-[11px]">
+      <div className="flex flex-wrap items-center gap-1.5">
+        {REFINEMENTS.map(r => (
+          <button
+            key={r.label}
+            onClick={() => run(r.instruction)}
+            disabled={!!busy}
+            className={`px-2.5 py-1 rounded-full border transition-colors disabled:opacity-50 ${
+              busy === r.instruction ? 'border-purple-300 bg-purple-50 text-purple-500' : 'border-slate-200 text-slate-500 hover:border-purple-300 hover:text-purple-500'
+            }`}
+          >
+            {busy === r.instruction ? '改写中…' : r.label}
+          </button>
+        ))}
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            run(customEdit);
+          }}
+          className="flex flex-1 min-w-[10rem] items-center gap-1"
+        >
+          <input
+            value={customEdit}
+            onChange={(e) => setCustomEdit(e.target.value)}
+            disabled={!!busy}
+            placeholder="自定义修改，例如：结尾加一句反转"
+            className="flex-1 bg-rose-50/50 border border-rose-100 rounded-full py-1 px-3 text-slate-700 focus:outline-none focus:border-purple-300 disabled:opacity-50"
+          />
+          <button
+            type="submit"
+            disabled={!!busy || !customEdit.trim()}
+            className="px-2.5 py-1 rounded-full bg-purple-500 text-white font-bold hover:bg-purple-600 disabled:opacity-40"
+          >
+            {busy && busy === customEdit ? '改写中…' : '改写'}
+          </button>
+        </form>
+        {versionCount > 1 && (
+          <div className="flex items-center gap-1 text-slate-400">
+            <button
+              onClick={() => onSelectVersion(activeVersion - 1)}
+              disabled={activeVersion === 0}
+              className="px-1.5 hover:text-purple-500 disabled:opacity-30"
+              title="上一个版本"
+            >
+              ‹
+            </button>
+            <span>{activeVersion === 0 ? '原版' : `改写 ${activeVersion}`} · {activeVersion + 1}/{versionCount}</span>
+            <button
+              onClick={() => onSelectVersion(activeVersion + 1)}
+              disabled={activeVersion === versionCount - 1}
+              className="px-1.5 hover:text-purple-500 disabled:opacity-30"
+              title="下一个版本"
+            >
+              ›
+            </button>
+          </div>
+        )}
+      </div>
+      {error && <p className="text-rose-500">{error}</p>}
+    </div>
+  );
+};
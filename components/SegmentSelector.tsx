@@ -0,0 +1,106 @@
+import React, { useRef } from 'react';
+import { TimeRange } from '../types';
+import { formatSeconds } from '../utils/time';
+
+interface SegmentSelectorProps {
+  duration: number;
+  range: TimeRange;
+  currentTime: number;
+  maxLength: number; // Longest allowed selection, in seconds
+  disabled?: boolean;
+  onChange: (range: TimeRange) => void;
+  onSeek: (time: number) => void;
+}
+
+const MIN_LENGTH = 1;
+
+export const SegmentSelector: React.FC<SegmentSelectorProps> = ({
+  duration, range, currentTime, maxLength, disabled = false, onChange, onSeek
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+
+  if (!duration || !isFinite(duration)) return null;
+
+  const length = range.end - range.start;
+  const tooLong = length > maxLength;
+  const pct = (t: number) => `${(t / duration) * 100}%`;
+
+  const setStart = (t: number) => onChange({ start: Math.min(Math.max(0, t), range.end - MIN_LENGTH), end: range.end });
+  const setEnd = (t: number) => onChange({ start: range.start, end: Math.max(Math.min(duration, t), range.start + MIN_LENGTH) });
+
+  const handleTrackClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onSeek(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div className="space-y-3 bg-rose-50/50 p-3 rounded-xl border border-rose-100">
+      <div className="flex items-center justify-between text-xs">
+        <span className="font-bold text-rose-400">分析片段</span>
+        <span className={`font-mono ${tooLong ? 'text-rose-500 font-bold' : 'text-slate-500'}`}>
+          {formatSeconds(range.start)} – {formatSeconds(range.end)} · 共 {length.toFixed(1)} 秒
+        </span>
+      </div>
+
+      {/* Scrubber: click to seek, highlighted area is the selection */}
+      <div
+        ref={trackRef}
+        onClick={handleTrackClick}
+        className="relative h-6 bg-white rounded-lg border border-rose-100 cursor-pointer overflow-hidden"
+      >
+        <div
+          className={`absolute top-0 bottom-0 ${tooLong ? 'bg-rose-300/60' : 'bg-purple-300/50'}`}
+          style={{ left: pct(range.start), width: pct(length) }}
+        ></div>
+        <div className="absolute top-0 bottom-0 w-0.5 bg-rose-500" style={{ left: pct(currentTime) }}></div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <label className="space-y-1 text-[10px] text-slate-400">
+          <span>入点 (In)</span>
+          <input
+            type="range" min={0} max={duration} step={0.1}
+            value={range.start}
+            disabled={disabled}
+            onChange={(e) => setStart(Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+        </label>
+        <label className="space-y-1 text-[10px] text-slate-400">
+          <span>出点 (Out)</span>
+          <input
+            type="range" min={0} max={duration} step={0.1}
+            value={range.end}
+            disabled={disabled}
+            onChange={(e) => setEnd(Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {[
+          { label: '当前位置设为入点', onClick: () => setStart(currentTime) },
+          { label: '当前位置设为出点', onClick: () => setEnd(currentTime) },
+          { label: '选择全片', onClick: () => onChange({ start: 0, end: duration }) }
+        ].map(action => (
+          <button
+            key={action.label}
+            onClick={action.onClick}
+            disabled={disabled}
+            className="px-3 py-1 bg-white border border-rose-200 text-rose-500 text-[10px] font-bold rounded-lg hover:bg-rose-50 hover:border-rose-300 transition-all disabled:opacity-50"
+          >
+            {action.label}
+          </button>
+        ))}
+      </div>
+
+      {tooLong && (
+        <p className="text-[10px] text-rose-500 font-bold">
+          所选片段超过{Math.floor(maxLength / 60)}分钟限制，请缩短选区。
+        </p>
+      )}
+    </div>
+  );
+};
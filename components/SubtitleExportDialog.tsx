@@ -0,0 +1,106 @@
+import React, { useMemo, useState } from 'react';
+import { TargetDuration } from '../types';
+import { TARGET_DURATION_SECONDS, MIN_READING_SPEED, MAX_READING_SPEED } from '../utils/constants';
+import { useReadingSpeed } from '../hooks/useReadingSpeed';
+import { splitSubtitleLines, buildCues, toSRT, toVTT, SubtitleCue } from '../utils/subtitles';
+import { formatSeconds } from '../utils/time';
+import { Modal } from './Modal';
+import { downloadText } from '../utils/download';
+
+interface SubtitleExportDialogProps {
+  texts: string[]; // One quote, or the whole result set played back to back
+  targetDuration: TargetDuration;
+  fileBaseName: string;
+  onClose: () => void;
+}
+
+export const SubtitleExportDialog: React.FC<SubtitleExportDialogProps> = ({ texts, targetDuration, fileBaseName, onClose }) => {
+  const [readingSpeed] = useReadingSpeed();
+  // Starts at the user's setting; changes here only affect this export
+  const [charsPerSecond, setCharsPerSecond] = useState(readingSpeed);
+  const [fitToDuration, setFitToDuration] = useState(true);
+  const [maxChars, setMaxChars] = useState(16);
+
+  const targetSeconds = TARGET_DURATION_SECONDS[targetDuration];
+
+  // Each quote gets its own block; when fitting, every block fills one targetDuration
+  const cues = useMemo(() => {
+    const all: SubtitleCue[] = [];
+    let offset = 0;
+    for (const text of texts) {
+      const block = buildCues(splitSubtitleLines(text, maxChars), {
+        charsPerSecond,
+        totalSeconds: fitToDuration ? targetSeconds : undefined,
+        offset
+      });
+      all.push(...block);
+      offset = block.length ? block[block.length - 1].end : offset;
+    }
+    return all;
+  }, [texts, charsPerSecond, fitToDuration, maxChars, targetSeconds]);
+
+  const totalSeconds = cues.length ? cues[cues.length - 1].end : 0;
+
+  return (
+    <Modal title="导出字幕 (SRT / VTT)" onClose={onClose}>
+      <div className="grid grid-cols-2 gap-4 text-xs text-slate-500">
+        <label className="space-y-1">
+          <span className="font-bold">语速 ({charsPerSecond} 字/秒)</span>
+          <input
+            type="range" min={MIN_READING_SPEED} max={MAX_READING_SPEED} step={0.5}
+            value={charsPerSecond}
+            onChange={(e) => setCharsPerSecond(Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="font-bold">每行最多 {maxChars} 字</span>
+          <input
+            type="range" min={8} max={24} step={1}
+            value={maxChars}
+            onChange={(e) => setMaxChars(Number(e.target.value))}
+            className="w-full accent-purple-500"
+          />
+        </label>
+        <label className="col-span-2 flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={fitToDuration}
+            onChange={(e) => setFitToDuration(e.target.checked)}
+            className="accent-purple-500"
+          />
+          <span>铺满目标时长（每条 {formatSeconds(targetSeconds, 0)}），否则按语速计时</span>
+        </label>
+      </div>
+
+      <div className="text-xs text-slate-400 flex justify-between">
+        <span>共 {cues.length} 行字幕</span>
+        <span>总时长 {formatSeconds(totalSeconds)}</span>
+      </div>
+
+      <div className="bg-slate-50 rounded-xl p-3 max-h-56 overflow-y-auto space-y-1 font-mono text-xs">
+        {cues.map((cue, i) => (
+          <div key={i} className="flex gap-3">
+            <span className="text-purple-400 flex-shrink-0">{formatSeconds(cue.start)}</span>
+            <span className="text-slate-600 font-sans">{cue.text}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-3">
+        <button
+          onClick={() => downloadText(`${fileBaseName}.srt`, toSRT(cues), 'application/x-subrip')}
+          className="flex-1 py-2.5 rounded-xl bg-gradient-to-r from-rose-400 to-purple-500 text-white text-sm font-bold hover:shadow-lg transition-all"
+        >
+          下载 .srt
+        </button>
+        <button
+          onClick={() => downloadText(`${fileBaseName}.vtt`, toVTT(cues), 'text/vtt')}
+          className="flex-1 py-2.5 rounded-xl bg-white border border-purple-200 text-purple-500 text-sm font-bold hover:bg-purple-50 transition-all"
+        >
+          下载 .vtt
+        </button>
+      </div>
+    </Modal>
+  );
+};
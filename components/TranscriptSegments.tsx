@@ -0,0 +1,55 @@
+import React, { useEffect, useRef } from 'react';
+import { TranscriptSegment } from '../types';
+import { formatSeconds } from '../utils/time';
+
+interface TranscriptSegmentsProps {
+  segments: TranscriptSegment[];
+  currentTime: number;
+  highlighted?: number[]; // Segments to emphasize, e.g. the ones a hovered quote drew from
+  onSeek: (time: number) => void;
+}
+
+const findActiveSegment = (segments: TranscriptSegment[], time: number) =>
+  segments.findIndex(seg => time >= seg.start && time < seg.end);
+
+export const TranscriptSegments: React.FC<TranscriptSegmentsProps> = ({ segments, currentTime, highlighted = [], onSeek }) => {
+  const activeIndex = findActiveSegment(segments, currentTime);
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the playing segment in view without scrolling the whole page
+  useEffect(() => {
+    const el = activeRef.current;
+    const list = el?.parentElement;
+    if (el && list) {
+      list.scrollTo({ top: el.offsetTop - list.offsetTop - list.clientHeight / 2 + el.clientHeight / 2, behavior: 'smooth' });
+    }
+  }, [activeIndex]);
+
+  return (
+    <div className="max-h-72 overflow-y-auto space-y-1 pl-3 pr-1 relative">
+      {segments.map((seg, idx) => {
+        const isActive = idx === activeIndex;
+        const isHighlighted = highlighted.includes(idx);
+        return (
+          <button
+            key={`${idx}-${seg.start}`}
+            ref={isActive ? activeRef : undefined}
+            onClick={() => onSeek(seg.start)}
+            className={`w-full text-left flex gap-3 px-2 py-1.5 rounded-lg text-sm transition-colors ${
+              isActive
+                ? 'bg-purple-100 text-purple-700'
+                : isHighlighted
+                  ? 'bg-rose-50 text-rose-600'
+                  : 'text-slate-600 hover:bg-purple-50'
+            }`}
+          >
+            <span className="flex-shrink-0 font-mono text-xs pt-0.5 text-purple-400">
+              {formatSeconds(seg.start, 0)}
+            </span>
+            <span className="leading-relaxed">{seg.text}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useUsage } from '../hooks/useUsage';
+import { BudgetMode, clearUsageLog, getBudgetStatus, setBudget } from '../services/usageService';
+import { UsageTotals, formatCost, formatTokens } from '../utils/usage';
+import { Modal } from './Modal';
+
+interface UsageDialogProps {
+  onClose: () => void;
+}
+
+// Shown in the log; older entries stay in storage for the daily totals
+const RECENT_ENTRIES = 20;
+
+const KIND_LABELS = { generate: '生成', rewrite: '改写' };
+
+// Asked before sending when the cap is reached in warn mode; block mode is enforced in quoteService
+export const confirmBudget = (): boolean => {
+  const { spent, limit, mode, over } = getBudgetStatus();
+  if (!over || mode !== 'warn') return true;
+  return window.confirm(`今日用量 ${formatCost(spent)} 已达到预算上限 ${formatCost(limit!)}，仍要继续发送请求吗？`);
+};
+
+const TotalsCard: React.FC<{ title: string; totals: UsageTotals }> = ({ title, totals }) => (
+  <div className="bg-rose-50/50 border border-rose-100 rounded-xl p-3 space-y-1">
+    <div className="font-bold text-slate-600">{title}</div>
+    <div className="text-lg font-bold text-purple-500">{formatCost(totals.cost)}</div>
+    <div className="font-mono text-[10px] text-slate-400">
+      {totals.calls} 次调用 · 输入 {formatTokens(totals.inputTokens)} · 输出 {formatTokens(totals.outputTokens)}
+      {totals.calls > 0 && ` · 平均 ${(totals.latencyMs / totals.calls / 1000).toFixed(1)}s`}
+    </div>
+  </div>
+);
+
+export const UsageDialog: React.FC<UsageDialogProps> = ({ onClose }) => {
+  const { log, budget, today, session } = useUsage();
+  const [limitDraft, setLimitDraft] = useState(budget.dailyLimit !== null ? String(budget.dailyLimit) : '');
+
+  const recent = log.slice(-RECENT_ENTRIES).reverse();
+  const overBudget = budget.dailyLimit !== null && today.cost >= budget.dailyLimit;
+
+  // An empty or non-positive value removes the cap
+  const handleLimitBlur = () => {
+    const value = Number(limitDraft);
+    setBudget({ ...budget, dailyLimit: limitDraft.trim() && value > 0 ? value : null });
+  };
+
+  const handleClear = () => {
+    if (window.confirm('清空全部用量记录？今日累计也会归零。')) {
+      clearUsageLog();
+    }
+  };
+
+  return (
+    <Modal title="用量与预算" onClose={onClose}>
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <TotalsCard title="今日" totals={today} />
+        <TotalsCard title="本次会话" totals={session} />
+      </div>
+
+      <div className="space-y-2 text-xs text-slate-500">
+        <div className="font-bold">每日预算 (USD)</div>
+        <div className="flex gap-2">
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            value={limitDraft}
+            onChange={(e) => setLimitDraft(e.target.value)}
+            onBlur={handleLimitBlur}
+            placeholder="不限"
+            className="flex-1 bg-rose-50/50 border border-rose-100 rounded-lg py-1.5 px-2 text-slate-600"
+          />
+          <select
+            value={budget.mode}
+            onChange={(e) => setBudget({ ...budget, mode: e.target.value as BudgetMode })}
+            className="bg-rose-50/50 border border-rose-100 rounded-lg py-1.5 px-2 text-slate-600"
+          >
+            <option value="warn">超出时提醒</option>
+            <option value="block">超出时阻止</option>
+          </select>
+        </div>
+        {budget.dailyLimit !== null && (
+          <p className={overBudget ? 'text-rose-500 font-bold' : 'text-slate-400'}>
+            今日已用 {formatCost(today.cost)} / {formatCost(budget.dailyLimit)}
+            {overBudget && (budget.mode === 'block' ? '，新的请求会被阻止' : '，发送前会先确认')}
+          </p>
+        )}
+        <p className="text-[10px] text-slate-400">费用按公开价格估算，本地模型和模拟模式不计费。记录只保存在本机浏览器，保留 30 天。</p>
+      </div>
+
+      <div className="space-y-2 text-xs">
+        <div className="flex items-center justify-between">
+          <span className="font-bold text-slate-500">最近调用</span>
+          <button onClick={handleClear} disabled={!log.length} className="text-slate-400 hover:text-rose-500 disabled:opacity-40">清空记录</button>
+        </div>
+        {recent.length === 0 ? (
+          <p className="text-slate-400">还没有调用记录。</p>
+        ) : (
+          <div className="max-h-56 overflow-y-auto divide-y divide-rose-50 font-mono text-[10px] text-slate-500">
+            {recent.map((entry, idx) => (
+              <div key={`${entry.at}-${idx}`} className="flex gap-2 py-1.5">
+                <span className="text-slate-400">{new Date(entry.at).toLocaleTimeString()}</span>
+                <span className="font-bold">{KIND_LABELS[entry.kind]}</span>
+                <span className="flex-1 truncate" title={entry.model}>{entry.model}</span>
+                <span>{formatTokens(entry.inputTokens)}→{formatTokens(entry.outputTokens)}</span>
+                <span>{(entry.latencyMs / 1000).toFixed(1)}s</span>
+                <span className="w-14 text-right">{formatCost(entry.cost)}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -1,32 +1,103 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { AnalysisResult, AnalysisStatus } from '../types';
-import { analyzeVideoAndGenerateQuotes } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AnalysisResult, AnalysisOptions, AnalysisStatus, CallUsage, AnalysisPhase, AnalysisProgress, MediaStrategy, TargetDuration, QuoteSource, TimeRange } from '../types';
+import { analyzeVideoAndGenerateQuotes, refineQuote } from '../services/quoteService';
+import { buildRewriteContext } from '../services/promptBuilder';
 import { QuoteCard } from './QuoteCard';
-import { HOT_TOPICS } from '../utils/constants';
+import { SegmentSelector } from './SegmentSelector';
+import { SubtitleExportDialog } from './SubtitleExportDialog';
+import { VideoComposerDialog } from './VideoComposerDialog';
+import { TranscriptSegments } from './TranscriptSegments';
+import { PresetManagerDialog } from './PresetManagerDialog';
+import { RefineBar } from './RefineBar';
+import { UsageDialog, confirmBudget } from './UsageDialog';
+import { ComplianceDialog } from './ComplianceDialog';
+import { HOT_TOPICS, DURATION_OPTIONS, MAX_SEGMENT_SECONDS, MIN_READING_SPEED, MAX_READING_SPEED } from '../utils/constants';
+import { targetCharsFor } from '../utils/length';
+import { CancelledError, ErrorDescription, RecoveryAction, describeGenerationError, toGenerationError } from '../services/errors';
+import { usePresets } from '../hooks/usePresets';
+import { useQuoteVersions } from '../hooks/useQuoteVersions';
+import { useUsage } from '../hooks/useUsage';
+import { useCompliance } from '../hooks/useCompliance';
+import { useReadingSpeed } from '../hooks/useReadingSpeed';
+import { selectPreset } from '../services/presetService';
+import { formatSeconds } from '../utils/time';
+import { formatCost, formatTokens, sumUsage } from '../utils/usage';
+import { PLATFORM_LABELS } from '../utils/compliance';
+import { updateComplianceSettings } from '../services/complianceService';
 
 // Updated duration logic to include 3m and 5m
-type DurationOption = '10s' | '15s' | '25s' | '60s' | '3m' | '5m';
+type DurationOption = TargetDuration;
+
+const RECOVERY_LABELS: Record<RecoveryAction, string> = {
+  'retry': '重试',
+  'text-only': '仅用主题生成',
+  'shorten-segment': '缩短片段',
+  'edit-topic': '修改主题'
+};
+
+const NO_QUOTES: string[] = [];
+
+// Totals over every call behind one result: the first round, duplicate retries and length fixes
+const ResultUsage: React.FC<{ usage: CallUsage[] }> = ({ usage }) => {
+  const totals = sumUsage(usage);
+  return (
+    <span className="text-[10px] font-mono text-slate-400" title={`${totals.calls} 次调用`}>
+      输入 {formatTokens(totals.inputTokens)} · 输出 {formatTokens(totals.outputTokens)} · {(totals.latencyMs / 1000).toFixed(1)}s · {formatCost(totals.cost)}
+    </span>
+  );
+};
 
 export const VideoAnalyzer: React.FC = () => {
   const [status, setStatus] = useState<AnalysisStatus>(AnalysisStatus.IDLE);
   const [file, setFile] = useState<File | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [videoDuration, setVideoDuration] = useState<number>(0);
+  const [segment, setSegment] = useState<TimeRange>({ start: 0, end: 0 });
+  const [currentTime, setCurrentTime] = useState(0);
   
   const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  // Options the current result was generated with, recorded when saving to the collection
+  const [resultSource, setResultSource] = useState<QuoteSource | null>(null);
+  // Request the current result came from, so refinements keep its preset, duration and topic
+  const [resultOptions, setResultOptions] = useState<AnalysisOptions | null>(null);
+  const [error, setError] = useState<ErrorDescription | null>(null);
+  const topicInputRef = useRef<HTMLInputElement>(null);
   
   const [customInstruction, setCustomInstruction] = useState('');
-  const [targetDuration, setTargetDuration] = useState<DurationOption>('15s');
+  const { presets, selected: preset } = usePresets();
+  const [showPresetManager, setShowPresetManager] = useState(false);
+  const [targetDuration, setTargetDuration] = useState<DurationOption>(preset.defaultDuration);
 
   // New: History tracking to prevent duplicates
   const [generatedHistory, setGeneratedHistory] = useState<string[]>([]);
+  const [regenerateDuplicates, setRegenerateDuplicates] = useState(true);
+  const [readingSpeed, setReadingSpeed] = useReadingSpeed();
+  const [enforceLength, setEnforceLength] = useState(true);
 
-  // Progress state
+  // Progress state, driven by the provider's real phases
   const [progress, setProgress] = useState(0);
+  const [phase, setPhase] = useState<AnalysisPhase | null>(null);
+  const [partialResult, setPartialResult] = useState<Partial<AnalysisResult> | null>(null);
+  const [mediaInfo, setMediaInfo] = useState<AnalysisProgress['media'] | null>(null);
 
   // Copy state for transcription
   const [transcriptionCopied, setTranscriptionCopied] = useState(false);
+  // Quote whose source segments are highlighted in the transcript
+  const [hoveredQuote, setHoveredQuote] = useState<number | null>(null);
+  const [showSubtitleExport, setShowSubtitleExport] = useState(false);
+  // Generated quote being composed into a video
+  const [composingQuote, setComposingQuote] = useState<string | null>(null);
+  const [showUsage, setShowUsage] = useState(false);
+  const { today: usageToday, budget } = useUsage();
+  const [showCompliance, setShowCompliance] = useState(false);
+  const { settings: compliance, terms: complianceTerms } = useCompliance();
+  // Aborts the running analysis; set only while one is in flight
+  const abortRef = useRef<AbortController | null>(null);
+  // Refinements in flight; they belong to the result set that was on screen when they started
+  const refineControllersRef = useRef(new Set<AbortController>());
+
+  // Refined versions of each generated quote; `texts` holds the one currently chosen per card
+  const quoteVersions = useQuoteVersions(result?.generatedQuotes ?? NO_QUOTES);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -40,40 +111,11 @@ export const VideoAnalyzer: React.FC = () => {
     };
   }, [videoUrl]);
 
-  // Simulated progress effect
-  useEffect(() => {
-    let interval: ReturnType<typeof setInterval>;
-    
-    if (status === AnalysisStatus.ANALYZING) {
-      setProgress(0);
-      let currentProgress = 0;
-      
-      interval = setInterval(() => {
-        // Fast start, then slow down to simulate thinking
-        if (currentProgress < 90) {
-          const remaining = 95 - currentProgress;
-          // Random increment based on remaining distance
-          const increment = Math.max(0.2, remaining * 0.05 * Math.random());
-          currentProgress += increment;
-          setProgress(Math.min(95, currentProgress));
-        }
-      }, 150);
-    } else if (status === AnalysisStatus.COMPLETED) {
-      setProgress(100);
-    } else if (status === AnalysisStatus.ERROR || status === AnalysisStatus.IDLE) {
-      setProgress(0);
-    }
-
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [status]);
-
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       if (!selectedFile.type.startsWith('video/')) {
-        setError("请上传有效的视频文件 (MP4, MOV等)");
+        setError({ message: "请上传有效的视频文件 (MP4, MOV等)", actions: [] });
         return;
       }
       
@@ -89,55 +131,171 @@ export const VideoAnalyzer: React.FC = () => {
     }
   };
 
+  const segmentLength = segment.end - segment.start;
+  const isFullVideo = segment.start <= 0 && segment.end >= videoDuration;
+
+  // The passage the current results were written from; the handles may have moved since
+  const resultRange = useMemo<TimeRange>(
+    () => resultOptions?.videoRange ?? { start: 0, end: videoDuration },
+    [resultOptions, videoDuration]
+  );
+
   const onVideoMetadataLoaded = (e: React.SyntheticEvent<HTMLVideoElement>) => {
     const duration = e.currentTarget.duration;
     setVideoDuration(duration);
-    
-    if (duration > 300) { // 300 seconds = 5 minutes
-      setError("视频时长超过限制（最大5分钟）。请上传较短的视频。");
+    setCurrentTime(0);
+    // The 5-minute rule applies to the selection: long videos start with their first 5 minutes selected
+    setSegment({ start: 0, end: Math.min(duration, MAX_SEGMENT_SECONDS) });
+  };
+
+  const onVideoTimeUpdate = (e: React.SyntheticEvent<HTMLVideoElement>) => {
+    const video = e.currentTarget;
+    // Stop when playback crosses the out point, but still allow playing past it after a manual seek
+    if (!video.paused && currentTime < segment.end && video.currentTime >= segment.end) {
+      video.pause();
+    }
+    setCurrentTime(video.currentTime);
+  };
+
+  const handleSeek = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  // Jump to a transcript segment and play from there, keeping the player on screen
+  const playFrom = (time: number) => {
+    handleSeek(time);
+    const video = videoRef.current;
+    if (video) {
+      video.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      video.play().catch(() => {});
     }
   };
 
+  // Switching voice also switches to that voice's usual length; the user can still override it
+  useEffect(() => {
+    setTargetDuration(preset.defaultDuration);
+  }, [preset.id, preset.defaultDuration]);
+
+  // Stop any running analysis when leaving the view
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // A new result set (or leaving the view) cancels refinements of the previous one
+  useEffect(() => () => {
+    refineControllersRef.current.forEach(controller => controller.abort());
+    refineControllersRef.current.clear();
+  }, [result]);
+
   const handleAnalyze = async () => {
     // Condition: Either file exists (and valid) OR custom instruction exists
     if (!file && !customInstruction.trim()) {
-      setError("请至少上传一个视频或输入一个主题。");
+      setError({ message: "请至少上传一个视频或输入一个主题。", actions: [] });
       return;
     }
     
     // Check constraints if file exists
-    if (file && videoDuration > 300) {
-       setError("视频时长超过5分钟，无法进行二创。请更换视频。");
+    if (file && segmentLength > MAX_SEGMENT_SECONDS) {
+       setError({ message: "所选片段超过5分钟，无法进行二创。请缩短选区。", actions: [] });
        return;
     }
 
+    if (!confirmBudget()) return;
+
     setStatus(AnalysisStatus.ANALYZING);
     setError(null);
+    setProgress(0);
+    setPhase(null);
+    setPartialResult(null);
+    setMediaInfo(null);
+
+    const handleProgress = (update: AnalysisProgress) => {
+      setPhase(update.phase);
+      // Never move the bar backwards, e.g. when a retry restarts the upload
+      setProgress(prev => Math.max(prev, update.percent));
+      if (update.partial) {
+        setPartialResult(update.partial);
+      }
+      if (update.media) {
+        setMediaInfo(update.media);
+      }
+    };
+
+    const options: AnalysisOptions = {
+      preset,
+      customInstruction,
+      targetDuration,
+      avoidQuotes: generatedHistory, // Pass history to avoid dupes
+      regenerateDuplicates,
+      readingSpeed,
+      enforceLength,
+      videoRange: file && !isFullVideo ? segment : undefined,
+      avoidTerms: compliance.avoidFlagged ? complianceTerms : undefined
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      const analysisResult = await analyzeVideoAndGenerateQuotes(file, {
-        customInstruction,
-        targetDuration,
-        avoidQuotes: generatedHistory // Pass history to avoid dupes
-      });
+      const analysisResult = await analyzeVideoAndGenerateQuotes(file, options, handleProgress, controller.signal);
       
+      setProgress(100);
       setResult(analysisResult);
+      setResultOptions(options);
+      setResultSource({
+        kind: 'generated',
+        fileName: file?.name,
+        topic: customInstruction.trim() || undefined,
+        targetDuration,
+        presetName: preset.name
+      });
       
       // Update history with new quotes
       setGeneratedHistory(prev => [...prev, ...analysisResult.generatedQuotes]);
       
       setStatus(AnalysisStatus.COMPLETED);
-    } catch (err: any) {
-      console.error(err);
-      let errorMessage = err.message || "分析过程中发生未知错误，请重试。";
-      
-      // Better error message for the XHR error (likely large file)
-      if (errorMessage.includes("Rpc failed") || errorMessage.includes("xhr error") || errorMessage.includes("code: 6")) {
-         errorMessage = "网络传输失败：视频文件可能过大，浏览器无法直接处理。请尝试压缩视频或仅使用【自定义主题】进行生成。";
+    } catch (err) {
+      const typed = toGenerationError(err);
+      if (typed instanceof CancelledError) {
+        // Back to whatever was on screen before, the previous set included
+        setStatus(result ? AnalysisStatus.COMPLETED : AnalysisStatus.IDLE);
+      } else {
+        console.error(err);
+        setError(describeGenerationError(typed, !!file));
+        setStatus(AnalysisStatus.ERROR);
       }
+      setProgress(0);
+    } finally {
+      abortRef.current = null;
+      setPhase(null);
+      setPartialResult(null);
+    }
+  };
 
-      setError(errorMessage);
-      setStatus(AnalysisStatus.ERROR);
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleRecovery = (action: RecoveryAction) => {
+    switch (action) {
+      case 'retry':
+        handleAnalyze();
+        break;
+      case 'text-only':
+        // Keep the topic, drop the video
+        reupload();
+        setError(customInstruction.trim() ? null : { message: "已移除视频，请输入一个主题后生成。", actions: [] });
+        if (!customInstruction.trim()) topicInputRef.current?.focus();
+        break;
+      case 'shorten-segment':
+        setSegment(prev => ({ start: prev.start, end: prev.start + Math.max(1, (prev.end - prev.start) / 2) }));
+        setError(null);
+        break;
+      case 'edit-topic':
+        topicInputRef.current?.focus();
+        topicInputRef.current?.select();
+        break;
     }
   };
 
@@ -151,6 +309,8 @@ export const VideoAnalyzer: React.FC = () => {
       setFile(null);
       setVideoUrl(null);
       setResult(null);
+      setResultSource(null);
+      setResultOptions(null);
       setStatus(AnalysisStatus.IDLE);
       setCustomInstruction('');
       setGeneratedHistory([]); // Clear history on full reset
@@ -174,6 +334,23 @@ export const VideoAnalyzer: React.FC = () => {
     setGeneratedHistory([]); 
   };
 
+  // Rewrites one card with the same preset and duration, and with what the set was written about
+  const handleRefine = async (index: number, instruction: string) => {
+    if (!result || !resultOptions || !confirmBudget()) return;
+    const context = buildRewriteContext(resultOptions, file ? result.transcription : undefined);
+    const controller = new AbortController();
+    refineControllersRef.current.add(controller);
+    try {
+      const refined = await refineQuote(quoteVersions.texts[index], instruction, resultOptions, context, controller.signal);
+      // The reply may land just after the set was replaced; card `index` is another quote by now
+      if (controller.signal.aborted) return;
+      quoteVersions.addVersion(index, refined);
+      setGeneratedHistory(prev => [...prev, refined]);
+    } finally {
+      refineControllersRef.current.delete(controller);
+    }
+  };
+
   const handleCopyTranscription = () => {
     if (result?.transcription) {
       navigator.clipboard.writeText(result.transcription);
@@ -182,11 +359,28 @@ export const VideoAnalyzer: React.FC = () => {
     }
   };
 
+  const formatMB = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+
+  const getMediaText = () => {
+    if (!mediaInfo) return null;
+    switch (mediaInfo.strategy) {
+      case MediaStrategy.ORIGINAL: return `直接发送原视频 · ${formatMB(mediaInfo.bytes)}`;
+      case MediaStrategy.AUDIO: return `原视频 ${formatMB(mediaInfo.originalBytes)} → 音轨 ${formatMB(mediaInfo.bytes)}`;
+      case MediaStrategy.UPLOAD: return `通过文件上传接口发送 · ${formatMB(mediaInfo.bytes)}`;
+      case MediaStrategy.CLIP: return `原视频 ${formatMB(mediaInfo.originalBytes)} → 录制片段 ${formatMB(mediaInfo.bytes)}`;
+    }
+  };
+
   const getLoadingText = () => {
-    if (progress < 25) return "小渝兒正在接收信号源... (Signal Receiving)";
-    if (progress < 50) return "系统正在解构视频情感... (Decoding Emotions)";
-    if (progress < 75) return "正在检索人间清醒数据库... (Accessing Database)";
-    return "正在生成扎心语录... (Generating)";
+    switch (phase) {
+      case AnalysisPhase.PREPARING: return "正在提取视频音轨... (Extracting Audio)";
+      case AnalysisPhase.ENCODING: return "正在读取视频文件... (Encoding Video)";
+      case AnalysisPhase.UPLOADING: return "正在上传至模型... (Uploading)";
+      case AnalysisPhase.THINKING: return "系统正在解构视频情感... (Model Thinking)";
+      case AnalysisPhase.RECEIVING: return "正在生成扎心语录... (Receiving)";
+      case AnalysisPhase.ADJUSTING: return "正在校正语录长度与用词... (Adjusting)";
+      default: return "小渝兒正在接收信号源... (Preparing)";
+    }
   };
 
   return (
@@ -231,15 +425,26 @@ export const VideoAnalyzer: React.FC = () => {
                    controls
                    className="w-full h-full object-contain"
                    onLoadedMetadata={onVideoMetadataLoaded}
+                   onTimeUpdate={onVideoTimeUpdate}
                  />
                )}
             </div>
+
+            <SegmentSelector
+              duration={videoDuration}
+              range={segment}
+              currentTime={currentTime}
+              maxLength={MAX_SEGMENT_SECONDS}
+              disabled={status === AnalysisStatus.ANALYZING}
+              onChange={setSegment}
+              onSeek={handleSeek}
+            />
             
             <div className="flex items-center justify-between text-sm px-2 bg-rose-50/50 p-3 rounded-xl border border-rose-100">
                <div className="flex flex-col">
                  <span className="text-slate-600 font-bold truncate max-w-[150px] md:max-w-[250px]">{file.name}</span>
                  <div className="flex gap-2 text-xs">
-                    <span className={`${videoDuration > 300 ? 'text-rose-500 font-bold' : 'text-slate-400'}`}>
+                    <span className="text-slate-400">
                         {Math.floor(videoDuration)}秒
                     </span>
                     <span className="text-slate-300">|</span>
@@ -269,14 +474,43 @@ export const VideoAnalyzer: React.FC = () => {
           className="hidden" 
         />
 
+        {/* Style Preset */}
+        <div className="flex flex-wrap items-center gap-2 pt-4 border-t border-rose-50">
+          <span className="text-xs font-bold text-rose-400 uppercase tracking-wider mr-1">写作风格</span>
+          {presets.map(p => (
+            <button
+              key={p.id}
+              onClick={() => selectPreset(p.id)}
+              disabled={status === AnalysisStatus.ANALYZING}
+              className={`text-xs font-bold px-3 py-1.5 rounded-full border transition-all ${
+                p.id === preset.id
+                  ? 'bg-rose-500 text-white border-rose-500 shadow-md shadow-rose-200'
+                  : 'bg-white text-slate-500 border-rose-100 hover:border-rose-300 hover:text-rose-500'
+              }`}
+            >
+              {p.name}
+            </button>
+          ))}
+          <button
+            onClick={() => setShowPresetManager(true)}
+            disabled={status === AnalysisStatus.ANALYZING}
+            className="text-xs font-bold px-3 py-1.5 rounded-full text-purple-500 hover:bg-purple-50 transition-colors"
+          >
+            管理风格
+          </button>
+        </div>
+
+        {showPresetManager && <PresetManagerDialog onClose={() => setShowPresetManager(false)} />}
+
         {/* Customization Options */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 pt-4 border-t border-rose-50">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
            <div className="space-y-3 overflow-hidden">
              <label className="text-xs font-bold text-rose-400 uppercase tracking-wider flex items-center gap-2">
                 <svg xmlns="http://www.w3.org/2000/svg" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path></svg>
                 自定义主题 (无需视频即可生成)
              </label>
              <input 
+               ref={topicInputRef}
                type="text"
                value={customInstruction}
                onChange={(e) => setCustomInstruction(e.target.value)}
@@ -319,14 +553,7 @@ export const VideoAnalyzer: React.FC = () => {
                 语录时长偏好 (最大5分钟)
              </label>
              <div className="grid grid-cols-3 gap-2">
-               {[
-                 { id: '10s', label: '10秒', sub: '短句' },
-                 { id: '15s', label: '15秒', sub: '金句' },
-                 { id: '25s', label: '25秒', sub: '文案' },
-                 { id: '60s', label: '1分钟', sub: '故事' },
-                 { id: '3m', label: '3分钟', sub: '深度' },
-                 { id: '5m', label: '5分钟', sub: '长篇' }
-               ].map((opt) => (
+               {DURATION_OPTIONS.map((opt) => (
                  <button
                    key={opt.id}
                    onClick={() => setTargetDuration(opt.id as DurationOption)}
@@ -342,13 +569,72 @@ export const VideoAnalyzer: React.FC = () => {
                  </button>
                ))}
              </div>
+             <div className="flex items-center gap-3 text-xs text-slate-400">
+               <span className="flex-shrink-0">语速 {readingSpeed} 字/秒</span>
+               <input
+                 type="range" min={MIN_READING_SPEED} max={MAX_READING_SPEED} step={0.5}
+                 value={readingSpeed}
+                 onChange={(e) => setReadingSpeed(Number(e.target.value))}
+                 disabled={status === AnalysisStatus.ANALYZING}
+                 className="flex-1 accent-purple-500"
+               />
+               <span className="flex-shrink-0 font-mono">≈{targetCharsFor(targetDuration, readingSpeed)}字/句</span>
+             </div>
+             <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none">
+               <input
+                 type="checkbox"
+                 checked={enforceLength}
+                 onChange={(e) => setEnforceLength(e.target.checked)}
+                 disabled={status === AnalysisStatus.ANALYZING}
+                 className="accent-purple-500"
+               />
+               过长或过短的语录自动扩写/精简
+             </label>
+             <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer select-none">
+               <input
+                 type="checkbox"
+                 checked={regenerateDuplicates}
+                 onChange={(e) => setRegenerateDuplicates(e.target.checked)}
+                 disabled={status === AnalysisStatus.ANALYZING}
+                 className="accent-purple-500"
+               />
+               与本次历史或语录库雷同的语录自动重写一次
+             </label>
+             <div className="flex items-center gap-2 text-xs text-slate-400">
+               <label className="flex items-center gap-2 cursor-pointer select-none">
+                 <input
+                   type="checkbox"
+                   checked={!!compliance.platform && compliance.avoidFlagged}
+                   onChange={(e) => updateComplianceSettings({ avoidFlagged: e.target.checked })}
+                   disabled={status === AnalysisStatus.ANALYZING || !compliance.platform}
+                   className="accent-purple-500"
+                 />
+                 {compliance.platform ? `避开${PLATFORM_LABELS[compliance.platform]}限流词` : '合规检查已关闭'}
+               </label>
+               <button
+                 onClick={() => setShowCompliance(true)}
+                 className="font-bold text-purple-500 hover:text-purple-600 transition-colors"
+               >
+                 词表
+               </button>
+             </div>
+             {showCompliance && <ComplianceDialog onClose={() => setShowCompliance(false)} />}
            </div>
         </div>
 
         {error && (
           <div className="p-4 bg-red-50 border border-red-100 text-red-500 text-sm rounded-xl flex items-center gap-3 animate-pulse">
             <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><circle cx="12" cy="12" r="10"></circle><line x1="12" y1="8" x2="12" y2="12"></line><line x1="12" y1="16" x2="12.01" y2="16"></line></svg>
-            {error}
+            <span className="flex-1">{error.message}</span>
+            {error.actions.map(action => (
+              <button
+                key={action}
+                onClick={() => handleRecovery(action)}
+                className="flex-shrink-0 text-xs font-bold px-3 py-1.5 rounded-full bg-white border border-red-200 hover:bg-red-100 transition-colors"
+              >
+                {RECOVERY_LABELS[action]}
+              </button>
+            ))}
           </div>
         )}
 
@@ -361,7 +647,15 @@ export const VideoAnalyzer: React.FC = () => {
                  <span className="animate-spin h-3 w-3 border-2 border-rose-400 border-t-transparent rounded-full"></span>
                  {getLoadingText()}
                </span>
-               <span className="text-purple-300">{Math.floor(progress)}%</span>
+               <span className="flex items-center gap-3">
+                 <span className="text-purple-300">{Math.floor(progress)}%</span>
+                 <button
+                   onClick={handleCancel}
+                   className="px-2 py-0.5 rounded-md border border-slate-600 text-slate-300 hover:text-white hover:border-rose-400 transition-colors"
+                 >
+                   取消
+                 </button>
+               </span>
              </div>
              
              {/* Progress Track */}
@@ -374,11 +668,21 @@ export const VideoAnalyzer: React.FC = () => {
                  <div className="absolute right-0 top-0 h-full w-1 bg-white shadow-[0_0_10px_white]"></div>
                </div>
              </div>
+             {mediaInfo && (
+               <div className="text-[10px] text-slate-400 font-mono px-1 relative z-10">
+                 {getMediaText()}
+               </div>
+             )}
+             {phase === AnalysisPhase.RECEIVING && partialResult?.generatedQuotes && (
+               <div className="text-[10px] text-slate-400 font-mono px-1 relative z-10">
+                 已接收 {partialResult.generatedQuotes.join('').length} 字 · 第 {partialResult.generatedQuotes.length}/3 条
+               </div>
+             )}
           </div>
         ) : (
           <button
             onClick={handleAnalyze}
-            disabled={(!!error && !customInstruction) || (!file && !customInstruction)}
+            disabled={(!!error && !customInstruction) || (!file && !customInstruction) || (!!file && segmentLength > MAX_SEGMENT_SECONDS)}
             className={`w-full py-4 rounded-xl font-bold text-white transition-all flex items-center justify-center gap-2 shadow-lg shadow-rose-200 ${
               (!file && !customInstruction)
                 ? 'bg-slate-300 cursor-not-allowed shadow-none'
@@ -389,8 +693,37 @@ export const VideoAnalyzer: React.FC = () => {
             <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><line x1="22" y1="2" x2="11" y2="13"></line><polygon points="22 2 15 22 11 13 2 9 22 2"></polygon></svg>
           </button>
         )}
+
+        <div className="flex justify-end -mt-2">
+          <button
+            onClick={() => setShowUsage(true)}
+            className={`text-[10px] font-mono transition-colors ${
+              budget.dailyLimit !== null && usageToday.cost >= budget.dailyLimit ? 'text-rose-500 font-bold' : 'text-slate-400 hover:text-purple-500'
+            }`}
+          >
+            今日用量 {formatCost(usageToday.cost)}
+            {budget.dailyLimit !== null && ` / ${formatCost(budget.dailyLimit)}`}
+            {' '}· 详情
+          </button>
+        </div>
+
+        {showUsage && <UsageDialog onClose={() => setShowUsage(false)} />}
       </div>
 
+      {/* Streaming preview: quotes render as their tokens arrive */}
+      {status === AnalysisStatus.ANALYZING && partialResult?.generatedQuotes && partialResult.generatedQuotes.length > 0 && (
+        <div className="grid grid-cols-1 gap-6 animate-fade-in">
+          {partialResult.generatedQuotes.map((text, idx) => (
+            <QuoteCard
+              key={`stream-${idx}`}
+              quote={{ id: idx, text, tags: [] }}
+              isGenerated={true}
+              isStreaming={idx === partialResult.generatedQuotes!.length - 1}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Results */}
       {status === AnalysisStatus.COMPLETED && result && (
         <div className="space-y-8 animate-fade-in-up">
@@ -422,28 +755,126 @@ export const VideoAnalyzer: React.FC = () => {
             <p className="text-slate-600 leading-relaxed text-sm pl-3 whitespace-pre-wrap">
               {result.transcription}
             </p>
+            {file && result.segments && result.segments.length > 0 && (
+              <div className="mt-4 pt-3 border-t border-purple-50">
+                <div className="text-[10px] text-slate-400 pl-3 mb-2">点击任意片段跳转播放</div>
+                <TranscriptSegments
+                  segments={result.segments}
+                  currentTime={currentTime}
+                  highlighted={hoveredQuote !== null ? result.quoteSegments?.[hoveredQuote] : undefined}
+                  onSeek={playFrom}
+                />
+              </div>
+            )}
           </div>
 
           <div className="space-y-6">
              <div className="flex items-center gap-4">
                 <div className="h-px flex-1 bg-gradient-to-r from-transparent to-rose-200"></div>
                 <h3 className="text-transparent bg-clip-text bg-gradient-to-r from-rose-500 to-purple-600 font-serif-sc font-bold text-xl tech-text-glow">
-                    二创结果 ({targetDuration})
+                    二创结果 ({resultOptions?.targetDuration ?? targetDuration})
                 </h3>
                 <div className="h-px flex-1 bg-gradient-to-r from-rose-200 to-transparent"></div>
              </div>
 
+             {resultSource?.kind === 'generated' && (
+               <div className="flex items-center justify-end gap-3 -mt-3">
+                 {result.usage && result.usage.length > 0 && <ResultUsage usage={result.usage} />}
+                 <button
+                   onClick={() => setShowSubtitleExport(true)}
+                   className="text-xs font-bold text-purple-500 hover:text-purple-600 flex items-center gap-1 px-3 py-1.5 rounded-full bg-white border border-purple-100 shadow-sm transition-colors"
+                 >
+                   <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"></path><polyline points="7 10 12 15 17 10"></polyline><line x1="12" y1="15" x2="12" y2="3"></line></svg>
+                   导出全部字幕
+                 </button>
+               </div>
+             )}
+
              <div className="grid grid-cols-1 gap-6">
-                {result.generatedQuotes.map((text, idx) => (
-                  <QuoteCard 
-                    key={`gen-${idx}-${text.substring(0,5)}`} 
-                    quote={{ id: Date.now() + idx, text }} 
-                    isGenerated={true}
-                  />
-                ))}
+                {quoteVersions.texts.map((text, idx) => {
+                  // The duplicate check applies to the original wording only
+                  const duplicate = quoteVersions.active[idx] === 0 ? result.duplicates?.[idx] : undefined;
+                  const drawnFrom = file && result.segments
+                    ? (result.quoteSegments?.[idx] || []).filter(i => result.segments![i])
+                    : [];
+                  return (
+                    <div
+                      key={`gen-${idx}-${result.generatedQuotes[idx]?.substring(0,5)}`}
+                      className="space-y-2"
+                      onMouseEnter={() => setHoveredQuote(idx)}
+                      onMouseLeave={() => setHoveredQuote(null)}
+                    >
+                      {(drawnFrom.length > 0 || videoUrl) && (
+                        <div className="flex flex-wrap items-center gap-1.5 px-2 text-[10px] text-slate-400">
+                          {drawnFrom.length > 0 && <span>参考片段:</span>}
+                          {drawnFrom.map(i => (
+                            <button
+                              key={i}
+                              onClick={() => playFrom(result.segments![i].start)}
+                              className="font-mono px-2 py-0.5 rounded-md bg-purple-50 text-purple-500 hover:bg-purple-100 transition-colors"
+                            >
+                              {formatSeconds(result.segments![i].start, 0)}
+                            </button>
+                          ))}
+                          {videoUrl && (
+                            <button
+                              onClick={() => setComposingQuote(text)}
+                              className="ml-auto font-bold px-2 py-0.5 rounded-md bg-rose-50 text-rose-500 hover:bg-rose-100 transition-colors"
+                            >
+                              合成竖屏视频
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {duplicate && (
+                        <div
+                          title={duplicate.text}
+                          className="mx-2 px-3 py-1.5 rounded-lg bg-amber-50 border border-amber-100 text-[11px] text-amber-600"
+                        >
+                          疑似重复：与{duplicate.origin === 'library' ? `语录库 #${duplicate.quoteId}` : '本次已生成的语录'}相似度 {Math.round(duplicate.score * 100)}%
+                          「{Array.from(duplicate.text).slice(0, 24).join('')}{Array.from(duplicate.text).length > 24 ? '…' : ''}」
+                        </div>
+                      )}
+                      <QuoteCard 
+                        quote={{ id: Date.now() + idx, text, tags: [] }} 
+                        isGenerated={true}
+                        source={resultSource ?? undefined}
+                        targetDuration={resultSource?.kind === 'generated' ? resultSource.targetDuration : undefined}
+                        readingSpeed={readingSpeed}
+                        onApplySuggestions={(fixed) => quoteVersions.addVersion(idx, fixed)}
+                      />
+                      {resultOptions && (
+                        <RefineBar
+                          versionCount={quoteVersions.versions[idx].length}
+                          activeVersion={quoteVersions.active[idx]}
+                          onSelectVersion={(v) => quoteVersions.selectVersion(idx, v)}
+                          onRefine={(instruction) => handleRefine(idx, instruction)}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
              </div>
           </div>
           
+          {composingQuote && videoUrl && (
+            <VideoComposerDialog
+              videoUrl={videoUrl}
+              text={composingQuote}
+              range={resultRange}
+              onClose={() => setComposingQuote(null)}
+            />
+          )}
+
+          {showSubtitleExport && resultSource?.kind === 'generated' && (
+            <SubtitleExportDialog
+              texts={quoteVersions.texts}
+              targetDuration={resultSource.targetDuration}
+              fileBaseName={`二创字幕-全部-${resultSource.targetDuration}`}
+              onClose={() => setShowSubtitleExport(false)}
+            />
+          )}
+
           <div className="flex gap-4 justify-center pt-8">
             <button 
               onClick={handleAnotherSet}
@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { TimeRange } from '../types';
+import {
+  ComposerStyle, CaptionMode, CaptionPosition, COMPOSER_FONTS, COMPOSER_SIZE,
+  buildCaptionCues, drawComposerFrame, composeVideo, pickRecorderMimeType
+} from '../utils/videoComposer';
+import { formatSeconds } from '../utils/time';
+import { downloadBlob } from '../utils/download';
+import { Modal } from './Modal';
+import { useReadingSpeed } from '../hooks/useReadingSpeed';
+
+interface VideoComposerDialogProps {
+  videoUrl: string;
+  text: string;
+  range: TimeRange; // Part of the source video to use
+  onClose: () => void;
+}
+
+const MODES: { id: CaptionMode; label: string }[] = [
+  { id: 'captions', label: '逐句字幕' },
+  { id: 'title', label: '整段标题' }
+];
+
+const POSITIONS: { id: CaptionPosition; label: string }[] = [
+  { id: 'top', label: '顶部' },
+  { id: 'center', label: '居中' },
+  { id: 'bottom', label: '底部' }
+];
+
+export const VideoComposerDialog: React.FC<VideoComposerDialogProps> = ({ videoUrl, text, range, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const audioRef = useRef<{ context: AudioContext; stream: MediaStream } | null>(null);
+  // Stops the recording in progress; set only while one runs
+  const abortRef = useRef<AbortController | null>(null);
+
+  const [style, setStyle] = useState<ComposerStyle>({
+    mode: 'captions',
+    position: 'bottom',
+    fontFamily: COMPOSER_FONTS[0].value,
+    blur: 24
+  });
+  const [ready, setReady] = useState(false);
+  const [recording, setRecording] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [output, setOutput] = useState<{ url: string; blob: Blob } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const [readingSpeed] = useReadingSpeed();
+  const cues = useMemo(() => buildCaptionCues(text, range, readingSpeed), [text, range, readingSpeed]);
+  const extension = pickRecorderMimeType().startsWith('video/mp4') ? 'mp4' : 'webm';
+
+  // Static preview of the first frame whenever the style changes
+  useEffect(() => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!ready || recording || !video || !canvas || !ctx) return;
+    canvas.width = COMPOSER_SIZE.width;
+    canvas.height = COMPOSER_SIZE.height;
+    document.fonts?.load(`700 40px ${style.fontFamily}`).catch(() => {}).then(() => {
+      drawComposerFrame(ctx, video, text, cues, video.currentTime - range.start, style);
+    });
+  }, [ready, recording, style, text, cues, range.start]);
+
+  // Release the recording and audio graph with the dialog
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    audioRef.current?.context.close();
+  }, []);
+  useEffect(() => () => {
+    if (output) URL.revokeObjectURL(output.url);
+  }, [output]);
+
+  // Routes the element's audio into a stream the recorder can use.
+  // An element can only be attached to one graph, so this is created once.
+  const getAudioStream = (): MediaStream | null => {
+    const video = videoRef.current;
+    if (!video) return null;
+    if (!audioRef.current) {
+      try {
+        const context = new AudioContext();
+        const source = context.createMediaElementSource(video);
+        const destination = context.createMediaStreamDestination();
+        source.connect(destination);
+        audioRef.current = { context, stream: destination.stream };
+      } catch (err) {
+        console.warn("Could not capture video audio, recording without sound:", err);
+        return null;
+      }
+    }
+    audioRef.current.context.resume();
+    return audioRef.current.stream;
+  };
+
+  const handleRecord = async () => {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video || !canvas) return;
+    setRecording(true);
+    setProgress(0);
+    setError(null);
+    setOutput(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const blob = await composeVideo({
+        video,
+        canvas,
+        audio: getAudioStream(),
+        text,
+        range,
+        style,
+        readingSpeed,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      setOutput({ blob, url: URL.createObjectURL(blob) });
+    } catch (err: any) {
+      if (!controller.signal.aborted) {
+        console.error(err);
+        setError("视频合成失败，请使用最新版 Chrome / Edge 重试。");
+      }
+    } finally {
+      abortRef.current = null;
+      setRecording(false);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  const pill = (active: boolean) => `px-3 py-1 rounded-full text-xs font-bold transition-all ${
+    active
+      ? 'bg-purple-500 text-white shadow-md shadow-purple-200'
+      : 'bg-white text-slate-500 border border-purple-100 hover:border-purple-300'
+  }`;
+
+  return (
+    <Modal title="合成竖屏视频 (9:16)" onClose={onClose} maxWidth="max-w-3xl">
+      <video
+        ref={videoRef}
+        src={videoUrl}
+        className="hidden"
+        playsInline
+        preload="auto"
+        onLoadedData={(e) => { e.currentTarget.currentTime = range.start; }}
+        onSeeked={() => setReady(true)}
+      />
+
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto] gap-6">
+        <div className="space-y-4 text-xs text-slate-500">
+          <div className="space-y-1.5">
+            <span className="font-bold">文字形式</span>
+            <div className="flex gap-2">
+              {MODES.map(m => (
+                <button key={m.id} disabled={recording} onClick={() => setStyle({ ...style, mode: m.id })} className={pill(style.mode === m.id)}>{m.label}</button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <span className="font-bold">位置</span>
+            <div className="flex gap-2">
+              {POSITIONS.map(p => (
+                <button key={p.id} disabled={recording} onClick={() => setStyle({ ...style, position: p.id })} className={pill(style.position === p.id)}>{p.label}</button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-1.5">
+            <span className="font-bold">字体</span>
+            <div className="flex flex-wrap gap-2">
+              {COMPOSER_FONTS.map(f => (
+                <button key={f.value} disabled={recording} onClick={() => setStyle({ ...style, fontFamily: f.value })} className={pill(style.fontFamily === f.value)}>{f.label}</button>
+              ))}
+            </div>
+          </div>
+          <label className="block space-y-1.5">
+            <span className="font-bold">背景模糊 {style.blur}px</span>
+            <input
+              type="range" min={0} max={40} step={2}
+              value={style.blur}
+              disabled={recording}
+              onChange={(e) => setStyle({ ...style, blur: Number(e.target.value) })}
+              className="w-full accent-purple-500"
+            />
+          </label>
+          <p className="text-[10px] text-slate-400">
+            片段 {formatSeconds(range.start)} – {formatSeconds(range.end)}，合成需实时播放一遍（约 {Math.ceil(range.end - range.start)} 秒）。切换到其他标签页也会继续，但画面可能卡顿。
+          </p>
+
+          {recording && (
+            <div className="w-full h-2 bg-slate-100 rounded-full overflow-hidden">
+              <div className="h-full bg-gradient-to-r from-rose-400 to-purple-500 tech-stripes" style={{ width: `${progress * 100}%` }}></div>
+            </div>
+          )}
+          {error && <p className="text-rose-500 font-bold">{error}</p>}
+
+          <button
+            onClick={handleRecord}
+            disabled={!ready || recording}
+            className="w-full py-3 rounded-xl bg-gradient-to-r from-rose-400 to-purple-500 text-white text-sm font-bold hover:shadow-lg transition-all disabled:opacity-50"
+          >
+            {recording ? `合成中 ${Math.floor(progress * 100)}%` : '开始合成'}
+          </button>
+          {recording && (
+            <button
+              onClick={handleCancel}
+              className="w-full py-2 rounded-xl bg-white border border-rose-200 text-rose-500 text-sm font-bold hover:bg-rose-50 transition-all"
+            >
+              取消合成
+            </button>
+          )}
+
+          {output && (
+            <button
+              onClick={() => downloadBlob(`大承活法-二创视频.${extension}`, output.blob)}
+              className="w-full py-3 rounded-xl bg-white border border-purple-200 text-purple-500 text-sm font-bold hover:bg-purple-50 transition-all"
+            >
+              下载 .{extension} ({(output.blob.size / (1024 * 1024)).toFixed(1)} MB)
+            </button>
+          )}
+        </div>
+
+        <div className="flex justify-center">
+          {output && !recording && (
+            <video src={output.url} controls className="h-[480px] rounded-xl shadow-lg bg-black" />
+          )}
+          {/* Stays mounted: the recorder draws onto it */}
+          <canvas
+            ref={canvasRef}
+            className={`h-[480px] aspect-[9/16] rounded-xl shadow-lg bg-slate-900 ${output && !recording ? 'hidden' : ''}`}
+          />
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,31 @@
+import { useSyncExternalStore } from 'react';
+import {
+  subscribeBatchQueue,
+  getBatchQueue,
+  addBatchTopics,
+  addBatchFiles,
+  removeBatchItem,
+  clearBatchQueue,
+  requeueBatchItem,
+  patchBatchItem,
+  startBatch,
+  cancelBatch
+} from '../services/batchQueueService';
+
+// The queue outlives the view: leaving 批量生产 neither stops a run nor drops its results
+export const useBatchQueue = () => {
+  const { items, running } = useSyncExternalStore(subscribeBatchQueue, getBatchQueue);
+
+  return {
+    items,
+    running,
+    addTopics: addBatchTopics,
+    addFiles: addBatchFiles,
+    remove: removeBatchItem,
+    clear: clearBatchQueue,
+    requeue: requeueBatchItem,
+    patch: patchBatchItem,
+    start: startBatch,
+    cancel: cancelBatch
+  };
+};
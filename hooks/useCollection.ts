@@ -0,0 +1,29 @@
+import { useSyncExternalStore, useCallback } from 'react';
+import { QuoteSource } from '../types';
+import { Tag } from '../utils/tags';
+import {
+  subscribeCollection,
+  getCollection,
+  addToCollection,
+  removeFromCollection
+} from '../services/collectionService';
+
+export const useCollection = () => {
+  const items = useSyncExternalStore(subscribeCollection, getCollection);
+
+  const isFavorite = useCallback(
+    (text: string) => items.some(item => item.text === text),
+    [items]
+  );
+
+  const toggleFavorite = useCallback((text: string, source: QuoteSource, tags?: Tag[]) => {
+    const existing = items.find(item => item.text === text);
+    if (existing) {
+      removeFromCollection(existing.id);
+    } else {
+      addToCollection(text, source, tags);
+    }
+  }, [items]);
+
+  return { items, isFavorite, toggleFavorite, remove: removeFromCollection };
+};
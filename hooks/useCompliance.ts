@@ -0,0 +1,22 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react';
+import { subscribeCompliance, getComplianceSettings, getPlatformTerms } from '../services/complianceService';
+import { ComplianceFlag, checkCompliance } from '../utils/compliance';
+
+const NO_FLAGS: ComplianceFlag[] = [];
+
+export const useCompliance = () => {
+  const settings = useSyncExternalStore(subscribeCompliance, getComplianceSettings);
+
+  // Terms of the selected platform; empty while the checker is off
+  const terms = useMemo(
+    () => settings.platform ? getPlatformTerms(settings.platform, settings) : [],
+    [settings]
+  );
+
+  const check = useCallback(
+    (text: string) => terms.length ? checkCompliance(text, terms) : NO_FLAGS,
+    [terms]
+  );
+
+  return { settings, terms, check };
+};
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeLibrary, getLibrary } from '../services/libraryService';
+
+export const useLibrary = () => useSyncExternalStore(subscribeLibrary, getLibrary);
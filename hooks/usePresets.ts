@@ -0,0 +1,8 @@
+import { useSyncExternalStore } from 'react';
+import { subscribePresets, getPresets, getSelectedPreset } from '../services/presetService';
+
+export const usePresets = () => {
+  const presets = useSyncExternalStore(subscribePresets, getPresets);
+  const selected = useSyncExternalStore(subscribePresets, getSelectedPreset);
+  return { presets, selected };
+};
@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+
+interface VersionState {
+  source: string[];
+  versions: string[][]; // Per quote, every version so far; index 0 is the original
+  active: number[];     // Per quote, the version shown
+}
+
+const initial = (quotes: string[]): VersionState => ({
+  source: quotes,
+  versions: quotes.map(q => [q]),
+  active: quotes.map(() => 0)
+});
+
+// Keeps refined versions of each quote in a result set. A new result set starts over.
+export const useQuoteVersions = (quotes: string[]) => {
+  const [state, setState] = useState<VersionState>(() => initial(quotes));
+
+  useEffect(() => {
+    setState(prev => prev.source === quotes ? prev : initial(quotes));
+  }, [quotes]);
+
+  // Until the effect above catches up with a new result set, show it as-is
+  const current = state.source === quotes ? state : initial(quotes);
+
+  const addVersion = useCallback((index: number, text: string) => {
+    setState(prev => {
+      const versions = prev.versions.map((list, i) => i === index ? [...list, text] : list);
+      const active = prev.active.map((a, i) => i === index ? versions[index].length - 1 : a);
+      return { ...prev, versions, active };
+    });
+  }, []);
+
+  const selectVersion = useCallback((index: number, version: number) => {
+    setState(prev => ({ ...prev, active: prev.active.map((a, i) => i === index ? version : a) }));
+  }, []);
+
+  return {
+    texts: current.versions.map((list, i) => list[current.active[i]] ?? list[0]),
+    versions: current.versions,
+    active: current.active,
+    addVersion,
+    selectVersion
+  };
+};
@@ -0,0 +1,42 @@
+import { useSyncExternalStore } from 'react';
+import { DEFAULT_READING_SPEED, MIN_READING_SPEED, MAX_READING_SPEED } from '../utils/constants';
+
+const STORAGE_KEY = 'dacheng.readingSpeed.v1';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readSpeed = (): number => {
+  try {
+    const stored = Number(localStorage.getItem(STORAGE_KEY));
+    return stored >= MIN_READING_SPEED && stored <= MAX_READING_SPEED ? stored : DEFAULT_READING_SPEED;
+  } catch {
+    return DEFAULT_READING_SPEED;
+  }
+};
+
+let speed = readSpeed();
+
+const subscribe = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const setReadingSpeed = (next: number) => {
+  speed = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, String(next));
+  } catch (error) {
+    console.warn("Failed to save reading speed:", error);
+  }
+  listeners.forEach(l => l());
+};
+
+// Voice-over speed in characters per second, remembered across visits. Shared by every view
+// that sizes or times quotes, so a change in the generator reaches cards, exports and batches.
+export const useReadingSpeed = () => {
+  const readingSpeed = useSyncExternalStore(subscribe, () => speed);
+  return [readingSpeed, setReadingSpeed] as const;
+};
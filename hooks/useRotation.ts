@@ -0,0 +1,107 @@
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Quote } from '../types';
+import { dealPage } from '../utils/rotation';
+
+// Seconds between pages; 0 turns automatic rotation off
+export const ROTATION_INTERVALS = [30, 60, 120, 300, 0];
+export const DEFAULT_ROTATION_INTERVAL = 120;
+
+export type RotationMode = 'shuffle' | 'daily';
+
+interface RotationSettings {
+  intervalSeconds: number;
+  mode: RotationMode;
+}
+
+const STORAGE_KEY = 'dacheng.rotation.v1';
+
+const readSettings = (): RotationSettings => {
+  const fallback: RotationSettings = { intervalSeconds: DEFAULT_ROTATION_INTERVAL, mode: 'shuffle' };
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    return {
+      intervalSeconds: ROTATION_INTERVALS.includes(stored?.intervalSeconds) ? stored.intervalSeconds : fallback.intervalSeconds,
+      mode: stored?.mode === 'daily' ? 'daily' : 'shuffle'
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+// Interval and mode, remembered across visits
+export const useRotationSettings = () => {
+  const [settings, setSettings] = useState<RotationSettings>(readSettings);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      console.warn("Failed to save rotation settings:", error);
+    }
+  }, [settings]);
+
+  const setIntervalSeconds = useCallback((intervalSeconds: number) => setSettings(s => ({ ...s, intervalSeconds })), []);
+  const setMode = useCallback((mode: RotationMode) => setSettings(s => ({ ...s, mode })), []);
+
+  return { ...settings, setIntervalSeconds, setMode };
+};
+
+interface RotationOptions {
+  pageSize: number;
+  intervalSeconds: number;
+  paused: boolean;
+}
+
+// Shows `pageSize` quotes at a time and moves on every `intervalSeconds`, cycling through the
+// whole pool before anything repeats. A new pool (other category, imported quotes) starts a new cycle.
+export const useRotation = (pool: Quote[], { pageSize, intervalSeconds, paused }: RotationOptions) => {
+  const deckRef = useRef<number[]>([]);
+  const intervalRef = useRef(intervalSeconds);
+  const [pageIds, setPageIds] = useState<number[]>([]);
+  const [timeRemaining, setTimeRemaining] = useState(intervalSeconds);
+
+  const poolIds = useMemo(() => pool.map(q => q.id), [pool]);
+
+  const next = useCallback(() => {
+    const { page, deck } = dealPage(poolIds, deckRef.current, pageSize);
+    deckRef.current = deck;
+    setPageIds(page);
+    setTimeRemaining(intervalSeconds);
+  }, [poolIds, pageSize, intervalSeconds]);
+
+  // Fresh cycle whenever the pool itself changes
+  useEffect(() => {
+    const { page, deck } = dealPage(poolIds, [], pageSize);
+    deckRef.current = deck;
+    setPageIds(page);
+    setTimeRemaining(intervalRef.current);
+  }, [poolIds, pageSize]);
+
+  // A new interval restarts the countdown but keeps the page
+  useEffect(() => {
+    intervalRef.current = intervalSeconds;
+    setTimeRemaining(intervalSeconds);
+  }, [intervalSeconds]);
+
+  // Count down only while running; the remaining time is kept across pauses
+  useEffect(() => {
+    if (paused || !intervalSeconds) return;
+    const timer = setInterval(() => {
+      setTimeRemaining(prev => Math.max(prev - 1, 0));
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [paused, intervalSeconds]);
+
+  useEffect(() => {
+    if (intervalSeconds && timeRemaining === 0) {
+      next();
+    }
+  }, [timeRemaining, intervalSeconds, next]);
+
+  const visible = useMemo(() => {
+    const byId = new Map(pool.map(q => [q.id, q]));
+    return pageIds.map(id => byId.get(id)).filter((q): q is Quote => !!q);
+  }, [pool, pageIds]);
+
+  return { visible, timeRemaining, next };
+};
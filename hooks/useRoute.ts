@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from 'react';
+import { subscribeRoute, getRoute } from '../services/routeService';
+
+export const useRoute = () => useSyncExternalStore(subscribeRoute, getRoute);
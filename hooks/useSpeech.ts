@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+
+const isSupported = () => typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+// Chinese voices installed in the browser/OS; the list loads asynchronously in Chrome
+export const useChineseVoices = () => {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    if (!isSupported()) return;
+    const load = () => setVoices(window.speechSynthesis.getVoices().filter(v => v.lang.toLowerCase().startsWith('zh')));
+    load();
+    window.speechSynthesis.addEventListener('voiceschanged', load);
+    return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+  }, []);
+
+  return voices;
+};
+
+interface SpeakOptions {
+  rate: number;
+  voice?: SpeechSynthesisVoice;
+}
+
+// Reads sentences one utterance at a time. Per-sentence utterances give reliable
+// highlighting (zh voices rarely emit boundary events) and avoid Chrome cutting off long utterances.
+export const useSpeech = (sentences: string[]) => {
+  const [currentIndex, setCurrentIndex] = useState(-1);
+  const [speaking, setSpeaking] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [elapsed, setElapsed] = useState(0); // seconds, excluding pauses
+
+  const runId = useRef(0); // Invalidates callbacks from a stopped run
+  const startedAt = useRef(0);
+  const accumulated = useRef(0);
+
+  // Tick the elapsed clock while audio is actually playing
+  useEffect(() => {
+    if (!speaking || paused) return;
+    startedAt.current = performance.now();
+    const timer = setInterval(() => {
+      setElapsed(accumulated.current + (performance.now() - startedAt.current) / 1000);
+    }, 200);
+    return () => {
+      clearInterval(timer);
+      accumulated.current += (performance.now() - startedAt.current) / 1000;
+    };
+  }, [speaking, paused]);
+
+  const stop = useCallback(() => {
+    runId.current++;
+    if (isSupported()) window.speechSynthesis.cancel();
+    setSpeaking(false);
+    setPaused(false);
+    setCurrentIndex(-1);
+  }, []);
+
+  const speak = useCallback(({ rate, voice }: SpeakOptions) => {
+    if (!isSupported() || sentences.length === 0) return;
+    window.speechSynthesis.cancel();
+    const id = ++runId.current;
+    accumulated.current = 0;
+    startedAt.current = performance.now();
+    setElapsed(0);
+    setPaused(false);
+    setSpeaking(true);
+
+    const speakAt = (index: number) => {
+      if (id !== runId.current) return;
+      if (index >= sentences.length) {
+        setSpeaking(false);
+        setCurrentIndex(-1);
+        return;
+      }
+      setCurrentIndex(index);
+      const utterance = new SpeechSynthesisUtterance(sentences[index]);
+      utterance.lang = voice?.lang || 'zh-CN';
+      if (voice) utterance.voice = voice;
+      utterance.rate = rate;
+      utterance.onend = () => speakAt(index + 1);
+      utterance.onerror = (e) => {
+        // "interrupted"/"canceled" are our own stop() calls
+        if (e.error !== 'interrupted' && e.error !== 'canceled') {
+          console.warn("Speech synthesis error:", e.error);
+        }
+        speakAt(index + 1);
+      };
+      window.speechSynthesis.speak(utterance);
+    };
+    speakAt(0);
+  }, [sentences]);
+
+  const pause = useCallback(() => {
+    if (!isSupported()) return;
+    window.speechSynthesis.pause();
+    setPaused(true);
+  }, []);
+
+  const resume = useCallback(() => {
+    if (!isSupported()) return;
+    window.speechSynthesis.resume();
+    setPaused(false);
+  }, []);
+
+  // Don't keep talking after the reader is closed
+  useEffect(() => stop, [stop]);
+
+  return { supported: isSupported(), speaking, paused, currentIndex, elapsed, speak, pause, resume, stop };
+};
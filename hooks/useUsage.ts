@@ -0,0 +1,13 @@
+import { useMemo, useSyncExternalStore } from 'react';
+import { subscribeUsage, getUsageLog, getBudget, isToday, SESSION_STARTED_AT } from '../services/usageService';
+import { sumUsage } from '../utils/usage';
+
+export const useUsage = () => {
+  const log = useSyncExternalStore(subscribeUsage, getUsageLog);
+  const budget = useSyncExternalStore(subscribeUsage, getBudget);
+
+  const today = useMemo(() => sumUsage(log.filter(e => isToday(e))), [log]);
+  const session = useMemo(() => sumUsage(log.filter(e => e.at >= SESSION_STARTED_AT)), [log]);
+
+  return { log, budget, today, session };
+};
@@ -0,0 +1,260 @@
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { existsSync, createReadStream, statSync } from "node:fs";
+import path from "node:path";
+import { MediaPayload } from "../types";
+import { CancelledError, GenerationError, PayloadTooLargeError, RateLimitedError, toErrorPayload, toGenerationError } from "../services/errors";
+import { createGeminiModel, createOpenAIModel, createStubModel, ServerModel } from "./models";
+import { DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from "../services/openAIService";
+import { createRateLimiter } from "./rateLimit";
+import { DEFAULT_MAX_UPLOAD_MB } from "../services/mediaService";
+import { InvalidRequestError, parseAnalysisOptions, parseRewriteRequest } from "./requestOptions";
+
+// Proxy between the browser and the model: holds the API key, builds the prompt and calls the model.
+// Run with `npm run server`; configured through .env.local or the environment:
+//   GEMINI_API_KEY          the key, never sent to the browser
+//   PROXY_MODEL             gemini (default), openai, or stub, a local deterministic model for testing
+//   OPENAI_BASE_URL         with PROXY_MODEL=openai: any /chat/completions server, default a local Ollama
+//   OPENAI_MODEL            with PROXY_MODEL=openai, default qwen2.5:7b
+//   OPENAI_API_KEY          with PROXY_MODEL=openai, optional for local servers
+//   PROXY_PORT              default 8787
+//   PROXY_RATE_LIMIT        requests per minute per client IP, default 30 (a set with length fixes takes up to 7)
+//   PROXY_MAX_UPLOAD_MB     largest accepted media upload, default 200
+//   PROXY_TRUST_FORWARDED   1 to take the client IP from X-Forwarded-For behind a reverse proxy
+
+if (existsSync('.env.local')) {
+  process.loadEnvFile('.env.local');
+}
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const MAX_UPLOAD_BYTES = (Number(process.env.PROXY_MAX_UPLOAD_MB) || DEFAULT_MAX_UPLOAD_MB) * 1024 * 1024;
+const TRUST_FORWARDED = process.env.PROXY_TRUST_FORWARDED === '1';
+const DIST_DIR = path.resolve('dist');
+
+const createModel = (): ServerModel => {
+  switch (process.env.PROXY_MODEL) {
+    case 'stub':
+      return createStubModel();
+    case 'openai':
+      return createOpenAIModel({
+        baseUrl: process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+        model: process.env.OPENAI_MODEL || DEFAULT_OPENAI_MODEL,
+        apiKey: process.env.OPENAI_API_KEY
+      });
+    default:
+      return createGeminiModel(process.env.GEMINI_API_KEY);
+  }
+};
+
+const model = createModel();
+
+const limiter = createRateLimiter({ limit: Number(process.env.PROXY_RATE_LIMIT) || 30, windowMs: 60_000 });
+
+const STATUS_BY_CODE: Record<GenerationError['code'], number> = {
+  'missing-key': 500,
+  'payload-too-large': 413,
+  'rate-limited': 429,
+  'safety-blocked': 422,
+  'malformed-output': 502,
+  'network': 502,
+  'cancelled': 499,
+  'budget-exceeded': 402,
+  'unknown': 500
+};
+
+const sendJSON = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof InvalidRequestError || error instanceof SyntaxError) {
+    sendJSON(res, 400, { error: { code: 'unknown', message: error.message } });
+    return;
+  }
+  const typed = toGenerationError(error);
+  const headers: Record<string, string> = typed instanceof RateLimitedError && typed.retryAfterSeconds
+    ? { 'Retry-After': String(typed.retryAfterSeconds) }
+    : {};
+  // The rest of an oversized upload is never read; closing stops the client from sending it
+  if (typed instanceof PayloadTooLargeError) {
+    headers['Connection'] = 'close';
+  }
+  sendJSON(res, STATUS_BY_CODE[typed.code], { error: toErrorPayload(typed) }, headers);
+};
+
+const clientIp = (req: IncomingMessage) => {
+  const forwarded = TRUST_FORWARDED ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+  return forwarded || req.socket.remoteAddress || 'unknown';
+};
+
+// Aborts once the client goes away, e.g. after pressing 取消
+const abortOnDisconnect = (res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+const uploadTooLarge = () => new PayloadTooLargeError(`Upload exceeds ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB`);
+
+// Counts bytes as they arrive and stops past MAX_UPLOAD_BYTES: chunked uploads carry no Content-Length to check up front
+const readBody = async (req: IncomingMessage): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_UPLOAD_BYTES) {
+      req.pause();
+      throw uploadTooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+// Node keeps repeated headers as arrays; each value is appended so none is dropped
+const toHeaders = (req: IncomingMessage) => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined) continue;
+    (Array.isArray(value) ? value : [value]).forEach(v => headers.append(name, v));
+  }
+  return headers;
+};
+
+// Lets the standard Request parser handle multipart and JSON bodies
+const toRequest = async (req: IncomingMessage) => new Request(`http://localhost${req.url}`, {
+  method: req.method,
+  headers: toHeaders(req),
+  body: await readBody(req)
+});
+
+// multipart/form-data: options (JSON), optional media file with mediaType and mediaTrimmed.
+// Answers with server-sent events: { text } while the model streams, then { result } or { error }.
+const handleGenerate = async (req: IncomingMessage, res: ServerResponse) => {
+  if (!String(req.headers['content-type'] || '').toLowerCase().startsWith('multipart/form-data')) {
+    throw new InvalidRequestError("Expected a multipart/form-data body");
+  }
+  const form = await (await toRequest(req)).formData().catch(() => {
+    throw new InvalidRequestError("Malformed multipart body");
+  });
+  const options = parseAnalysisOptions(JSON.parse(String(form.get('options') || '{}')));
+  const file = form.get('media');
+  const media: MediaPayload | null = file instanceof Blob
+    ? {
+        blob: file,
+        mimeType: String(form.get('mediaType') || file.type || 'application/octet-stream'),
+        fileName: file instanceof File ? file.name : 'media',
+        trimmed: form.get('mediaTrimmed') === '1'
+      }
+    : null;
+
+  const signal = abortOnDisconnect(res);
+  res.writeHead(200, { 'Content-Type': 'text/event-stream; charset=utf-8', 'Cache-Control': 'no-cache' });
+  const emit = (event: unknown) => res.write(`data: ${JSON.stringify(event)}\n\n`);
+
+  // Only the new part of the text goes over the wire
+  let sent = 0;
+  try {
+    const result = await model.analyze(media, options, (text) => {
+      emit({ text: text.slice(sent) });
+      sent = text.length;
+    }, signal);
+    emit({ result });
+  } catch (error) {
+    const typed = toGenerationError(error);
+    if (!(typed instanceof CancelledError)) {
+      console.error("Generation failed:", error);
+      emit({ error: toErrorPayload(typed) });
+    }
+  }
+  res.end();
+};
+
+// JSON: { text, request, options } -> { quote, usage }
+const handleRewrite = async (req: IncomingMessage, res: ServerResponse) => {
+  const body = await (await toRequest(req)).json();
+  if (typeof body?.text !== 'string' || !body.text.trim()) {
+    throw new InvalidRequestError("Missing text to rewrite");
+  }
+  const result = await model.rewrite(body.text, parseRewriteRequest(body.request), parseAnalysisOptions(body.options), abortOnDisconnect(res));
+  sendJSON(res, 200, result);
+};
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon'
+};
+
+// Serves the built app (npm run build), so one process can host everything; unknown paths get index.html
+const serveStatic = (req: IncomingMessage, res: ServerResponse) => {
+  let urlPath: string;
+  try {
+    urlPath = decodeURIComponent(new URL(req.url || '/', 'http://localhost').pathname);
+  } catch {
+    sendJSON(res, 400, { error: { code: 'unknown', message: 'Malformed URL' } });
+    return;
+  }
+  let filePath = path.join(DIST_DIR, urlPath);
+  // The separator keeps siblings such as dist-old/ out
+  const insideDist = filePath.startsWith(DIST_DIR + path.sep);
+  if (!insideDist || !existsSync(filePath) || statSync(filePath).isDirectory()) {
+    filePath = path.join(DIST_DIR, 'index.html');
+  }
+  if (!existsSync(filePath)) {
+    sendJSON(res, 404, { error: { code: 'unknown', message: 'Not found. Run `npm run build` to serve the app from here.' } });
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': MIME_TYPES[path.extname(filePath)] || 'application/octet-stream' });
+  createReadStream(filePath).pipe(res);
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    if (!pathname.startsWith('/api/')) {
+      serveStatic(req, res);
+      return;
+    }
+
+    if (pathname === '/api/health') {
+      sendJSON(res, 200, { ok: true, model: model.label });
+      return;
+    }
+    if (req.method !== 'POST' || (pathname !== '/api/generate' && pathname !== '/api/rewrite')) {
+      sendJSON(res, 404, { error: { code: 'unknown', message: `No route for ${req.method} ${pathname}` } });
+      return;
+    }
+
+    const { allowed, retryAfterSeconds } = limiter.take(clientIp(req));
+    if (!allowed) {
+      throw new RateLimitedError("Too many requests from this client, slow down", retryAfterSeconds);
+    }
+    // Declared sizes are refused before reading; the rest are counted while reading
+    if (Number(req.headers['content-length']) > MAX_UPLOAD_BYTES) {
+      throw uploadTooLarge();
+    }
+
+    if (pathname === '/api/generate') {
+      await handleGenerate(req, res);
+    } else {
+      await handleRewrite(req, res);
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendError(res, error);
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Proxy listening on http://localhost:${PORT} · model: ${model.label}`);
+});
@@ -0,0 +1,54 @@
+import { AnalysisOptions, AnalysisResult, MediaPayload, RewriteRequest, RewriteResult } from "../types";
+import { GEMINI_LABEL, analyzeWithGemini, createGeminiClient, rewriteWithGemini } from "../services/geminiService";
+import { OpenAIConfig, analyzeWithOpenAI, rewriteWithOpenAI } from "../services/openAIService";
+import { createMockProvider } from "../services/mockService";
+import { sleep } from "../services/cancellation";
+
+// What the proxy calls to answer a request
+export interface ServerModel {
+  label: string;
+  analyze: (
+    media: MediaPayload | null,
+    options: AnalysisOptions,
+    onText: (accumulatedText: string) => void,
+    signal: AbortSignal
+  ) => Promise<AnalysisResult>;
+  rewrite: (text: string, request: RewriteRequest, options: AnalysisOptions, signal: AbortSignal) => Promise<RewriteResult>;
+}
+
+// The client is created per request so a missing key surfaces as a typed error rather than a crash at startup
+export const createGeminiModel = (apiKey: string | undefined): ServerModel => ({
+  label: GEMINI_LABEL,
+  analyze: (media, options, onText, signal) => analyzeWithGemini(createGeminiClient(apiKey), media, options, onText, signal),
+  rewrite: (text, request, options, signal) => rewriteWithGemini(createGeminiClient(apiKey), text, request, options, signal)
+});
+
+// Any OpenAI-compatible /chat/completions server; topic only
+export const createOpenAIModel = (config: OpenAIConfig): ServerModel => ({
+  label: `OpenAI兼容 · ${config.model}`,
+  analyze: (media, options, onText, signal) => analyzeWithOpenAI(config, !!media, options, onText, signal),
+  rewrite: (text, request, options, signal) => rewriteWithOpenAI(config, text, request, options, signal)
+});
+
+const STUB_STREAM_CHUNKS = 20;
+
+// Local stand-in for testing the proxy without a key or network: the mock provider's
+// deterministic results, streamed back as JSON text the way Gemini would, with estimated usage
+export const createStubModel = (delayMs = 400): ServerModel => {
+  const mock = createMockProvider({ delayMs: 0 });
+  return {
+    label: '本地桩模型 (Stub)',
+    analyze: async (media, options, onText, signal) => {
+      const file = media ? new File([media.blob], media.fileName, { type: media.mimeType }) : null;
+      const result = await mock.generate(file, options, undefined, signal);
+      const json = JSON.stringify(result);
+      const chunkSize = Math.ceil(json.length / STUB_STREAM_CHUNKS);
+      for (let end = chunkSize; end < json.length + chunkSize; end += chunkSize) {
+        await sleep(delayMs / STUB_STREAM_CHUNKS, signal);
+        onText(json.slice(0, end));
+      }
+      return result;
+    },
+    rewrite: (text, request, options, signal) => mock.rewrite(text, request, options, signal)
+  };
+};
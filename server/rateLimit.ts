@@ -0,0 +1,31 @@
+// Per-client sliding-window limit: at most `limit` requests in any `windowMs`
+export interface RateLimiter {
+  take: (key: string, now?: number) => { allowed: boolean; retryAfterSeconds: number };
+}
+
+// Idle clients are forgotten once this many are tracked, so the map can't grow without bound
+const MAX_TRACKED_KEYS = 10000;
+
+export const createRateLimiter = ({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter => {
+  const hits = new Map<string, number[]>();
+
+  const prune = (now: number) => {
+    for (const [key, times] of hits) {
+      if (!times.length || times[times.length - 1] <= now - windowMs) hits.delete(key);
+    }
+  };
+
+  return {
+    take: (key, now = Date.now()) => {
+      if (hits.size > MAX_TRACKED_KEYS) prune(now);
+      const recent = (hits.get(key) || []).filter(t => t > now - windowMs);
+      if (recent.length >= limit) {
+        hits.set(key, recent);
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil((recent[0] + windowMs - now) / 1000)) };
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true, retryAfterSeconds: 0 };
+    }
+  };
+};
@@ -0,0 +1,89 @@
+import { AnalysisOptions, ComplianceCategory, ComplianceTerm, RewriteRequest, StylePreset, TargetDuration, TimeRange } from "../types";
+import { DURATION_OPTIONS, MAX_READING_SPEED, MIN_READING_SPEED } from "../utils/constants";
+
+// Bounds on what a client can make the server send to the model
+const MAX_TEXT_CHARS = 4000;
+const MAX_AVOID_QUOTES = 200;
+const MAX_SAMPLES = 5;
+const MAX_AVOID_TERMS = 200;
+const MAX_TERM_CHARS = 20;
+
+const COMPLIANCE_CATEGORIES: ComplianceCategory[] = ['profanity', 'advertising', 'sensitive'];
+
+// A request body the proxy refuses, answered with 400
+export class InvalidRequestError extends Error {}
+
+const text = (value: unknown, max = MAX_TEXT_CHARS): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.slice(0, max) : undefined;
+
+const finite = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const isDuration = (value: unknown): value is TargetDuration =>
+  DURATION_OPTIONS.some(o => o.id === value);
+
+// Only used for the prompt; an unknown default duration falls back to the request's
+const toPreset = (raw: any, targetDuration: TargetDuration): StylePreset | undefined => {
+  const instructions = text(raw?.instructions);
+  if (!instructions) return undefined;
+  return {
+    id: String(raw.id ?? 'client'),
+    name: text(raw.name, 50) ?? '自定义',
+    instructions,
+    samples: Array.isArray(raw.samples) ? raw.samples.map((s: unknown) => text(s)).filter(Boolean).slice(0, MAX_SAMPLES) : [],
+    defaultDuration: isDuration(raw.defaultDuration) ? raw.defaultDuration : targetDuration
+  };
+};
+
+const toRange = (raw: any): TimeRange | undefined => {
+  const start = finite(raw?.start);
+  const end = finite(raw?.end);
+  return start !== undefined && end !== undefined && end > start && start >= 0 ? { start, end } : undefined;
+};
+
+// Sizes every quote and length rewrite, so an absurd value would make the server pay for absurd targets
+const toReadingSpeed = (raw: unknown): number | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  const speed = finite(raw);
+  if (speed === undefined || speed < MIN_READING_SPEED || speed > MAX_READING_SPEED) {
+    throw new InvalidRequestError(`readingSpeed must be between ${MIN_READING_SPEED} and ${MAX_READING_SPEED}`);
+  }
+  return speed;
+};
+
+const toTerms = (raw: unknown): ComplianceTerm[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  return raw.flatMap((t: any): ComplianceTerm[] => {
+    const term = text(t?.term, MAX_TERM_CHARS);
+    if (!term || !COMPLIANCE_CATEGORIES.includes(t.category)) return [];
+    const suggestion = text(t.suggestion, MAX_TERM_CHARS);
+    return [suggestion ? { term, category: t.category, suggestion } : { term, category: t.category }];
+  }).slice(0, MAX_AVOID_TERMS);
+};
+
+// Keeps only the AnalysisOptions fields the prompt uses, with checked types and sizes
+export const parseAnalysisOptions = (raw: any): AnalysisOptions => {
+  const targetDuration = raw?.targetDuration;
+  if (!isDuration(targetDuration)) {
+    throw new InvalidRequestError(`Unknown targetDuration "${raw?.targetDuration}"`);
+  }
+  return {
+    preset: toPreset(raw.preset, targetDuration),
+    customInstruction: text(raw.customInstruction),
+    targetDuration,
+    avoidQuotes: Array.isArray(raw.avoidQuotes)
+      ? raw.avoidQuotes.map((q: unknown) => text(q)).filter((q: string | undefined): q is string => !!q).slice(-MAX_AVOID_QUOTES)
+      : undefined,
+    readingSpeed: toReadingSpeed(raw.readingSpeed),
+    videoRange: toRange(raw.videoRange),
+    avoidTerms: toTerms(raw.avoidTerms)
+  };
+};
+
+export const parseRewriteRequest = (raw: any): RewriteRequest => {
+  const instruction = text(raw?.instruction);
+  if (!instruction) {
+    throw new InvalidRequestError("Missing rewrite instruction");
+  }
+  return { instruction, targetChars: finite(raw.targetChars), context: text(raw.context) };
+};
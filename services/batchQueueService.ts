@@ -0,0 +1,124 @@
+import { AnalysisStatus, BatchItem, TargetDuration } from "../types";
+import { BATCH_CONCURRENCY, BatchOptions, generateBatchItem, runPool } from "./batchService";
+import { CancelledError, describeGenerationError, toGenerationError } from "./errors";
+
+// Queue of clips and topics generated BATCH_CONCURRENCY at a time. It lives at module level, so a
+// run keeps going and keeps its results while the user is on another view. Quotes from finished
+// items are passed on as avoidQuotes, so a batch doesn't repeat itself. Failed items can be queued
+// again; cancelling stops the items in flight and puts them back in the queue.
+// Held in memory only: queued files can't be stored, so the queue is lost on reload.
+
+export interface BatchQueueState {
+  items: BatchItem[];
+  running: boolean;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// Cached snapshot so useSyncExternalStore sees a stable reference between writes
+let snapshot: BatchQueueState = { items: [], running: false };
+// Quotes of finished items, passed to later ones as avoidQuotes
+let history: string[] = [];
+// Aborts the running batch; set only while one is in flight
+let controller: AbortController | null = null;
+
+const commit = (next: Partial<BatchQueueState>) => {
+  snapshot = { ...snapshot, ...next };
+  listeners.forEach(l => l());
+};
+
+const update = (fn: (items: BatchItem[]) => BatchItem[]) => {
+  commit({ items: fn(snapshot.items) });
+};
+
+let nextId = 0;
+const createId = () => `batch-${Date.now().toString(36)}-${nextId++}`;
+
+export const subscribeBatchQueue = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getBatchQueue = (): BatchQueueState => snapshot;
+
+export const patchBatchItem = (id: string, changes: Partial<BatchItem>) => {
+  update(list => list.map(item => item.id === id ? { ...item, ...changes } : item));
+};
+
+export const addBatchTopics = (topics: string[], targetDuration: TargetDuration) => {
+  update(list => {
+    const queued = new Set(list.filter(i => !i.file).map(i => i.topic));
+    const fresh = Array.from(new Set(topics.map(t => t.trim()).filter(t => t && !queued.has(t))));
+    return [...list, ...fresh.map(topic => ({ id: createId(), topic, targetDuration, status: AnalysisStatus.IDLE }))];
+  });
+};
+
+export const addBatchFiles = (files: File[], targetDuration: TargetDuration) => {
+  update(list => [...list, ...files.map(file => ({ id: createId(), file, targetDuration, status: AnalysisStatus.IDLE }))]);
+};
+
+export const removeBatchItem = (id: string) => {
+  update(list => list.filter(item => item.id !== id || item.status === AnalysisStatus.ANALYZING));
+};
+
+export const clearBatchQueue = () => {
+  update(list => list.filter(item => item.status === AnalysisStatus.ANALYZING));
+  history = [];
+};
+
+export const requeueBatchItem = (id: string) => {
+  patchBatchItem(id, { status: AnalysisStatus.IDLE, error: undefined, phase: undefined });
+};
+
+const take = (signal: AbortSignal) => {
+  if (signal.aborted) return undefined;
+  const item = snapshot.items.find(i => i.status === AnalysisStatus.IDLE);
+  if (item) patchBatchItem(item.id, { status: AnalysisStatus.ANALYZING, error: undefined });
+  return item;
+};
+
+const runItem = async (item: BatchItem, options: BatchOptions, signal: AbortSignal) => {
+  try {
+    const result = await generateBatchItem(item, {
+      ...options,
+      avoidQuotes: [...(options.avoidQuotes || []), ...history]
+    }, (progress) => {
+      // Streaming reports progress per chunk; only a new phase is worth a render
+      if (snapshot.items.find(i => i.id === item.id)?.phase !== progress.phase) {
+        patchBatchItem(item.id, { phase: progress.phase });
+      }
+    }, signal);
+    history.push(...result.generatedQuotes);
+    patchBatchItem(item.id, { status: AnalysisStatus.COMPLETED, phase: undefined, result });
+  } catch (err) {
+    const typed = toGenerationError(err);
+    if (typed instanceof CancelledError) {
+      patchBatchItem(item.id, { status: AnalysisStatus.IDLE, phase: undefined });
+      return;
+    }
+    console.error(err);
+    const { message } = describeGenerationError(typed, !!item.file);
+    patchBatchItem(item.id, { status: AnalysisStatus.ERROR, phase: undefined, error: message });
+  }
+};
+
+// Generates every queued item, including ones added while the run is going
+export const startBatch = async (options: BatchOptions) => {
+  if (controller) return;
+  const current = new AbortController();
+  controller = current;
+  commit({ running: true });
+  try {
+    await runPool(BATCH_CONCURRENCY, () => take(current.signal), item => runItem(item, options, current.signal));
+  } finally {
+    controller = null;
+    commit({ running: false });
+  }
+};
+
+export const cancelBatch = () => {
+  controller?.abort();
+};
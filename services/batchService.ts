@@ -0,0 +1,49 @@
+import { AnalysisOptions, AnalysisProgressHandler, AnalysisResult, BatchItem } from "../types";
+import { analyzeVideoAndGenerateQuotes } from "./quoteService";
+import { readVideoDuration } from "./mediaService";
+import { abortable } from "./cancellation";
+import { MAX_SEGMENT_SECONDS } from "../utils/constants";
+
+// Items generated at the same time. Each one already retries transient failures inside the
+// provider, so more parallel requests would mostly trade throughput for rate-limit waits.
+export const BATCH_CONCURRENCY = 2;
+
+// Options shared by every item; the item supplies its own topic, duration and video range
+export type BatchOptions = Omit<AnalysisOptions, 'customInstruction' | 'targetDuration' | 'videoRange'>;
+
+// Runs `worker` over items pulled from `take` with at most `limit` in flight.
+// `take` is asked again after every item, so items queued mid-run are picked up too.
+export const runPool = async <T>(
+  limit: number,
+  take: () => T | undefined,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  const lane = async () => {
+    for (let item = take(); item !== undefined; item = take()) {
+      await worker(item);
+    }
+  };
+  await Promise.all(Array.from({ length: limit }, lane));
+};
+
+// Generates one queue item. Clips longer than a single request allows are cut to their opening minutes.
+export const generateBatchItem = async (
+  item: BatchItem,
+  options: BatchOptions,
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  let videoRange: AnalysisOptions['videoRange'];
+  if (item.file) {
+    const duration = await abortable(readVideoDuration(item.file).catch(() => 0), signal);
+    if (duration > MAX_SEGMENT_SECONDS) {
+      videoRange = { start: 0, end: MAX_SEGMENT_SECONDS };
+    }
+  }
+  return analyzeVideoAndGenerateQuotes(item.file ?? null, {
+    ...options,
+    customInstruction: item.topic,
+    targetDuration: item.targetDuration,
+    videoRange
+  }, onProgress, signal);
+};
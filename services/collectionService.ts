@@ -0,0 +1,80 @@
+import { CollectedQuote, QuoteSource } from "../types";
+import { Tag } from "../utils/tags";
+
+const STORAGE_KEY = 'dacheng.collection.v1';
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readStorage = (): CollectedQuote[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    // Entries saved before multi-tag support carry a single optional category
+    return parsed.map((item: any) => item.tags ? item : { ...item, tags: item.category ? [item.category] : [] });
+  } catch (error) {
+    console.warn("Failed to read collection from localStorage:", error);
+    return [];
+  }
+};
+
+// Cached snapshot so useSyncExternalStore sees a stable reference between writes
+let snapshot: CollectedQuote[] = readStorage();
+
+const commit = (next: CollectedQuote[]) => {
+  snapshot = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to persist collection:", error);
+  }
+  listeners.forEach(l => l());
+};
+
+// Keep multiple tabs in sync
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) {
+      snapshot = readStorage();
+      listeners.forEach(l => l());
+    }
+  });
+}
+
+export const subscribeCollection = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCollection = (): CollectedQuote[] => snapshot;
+
+// Quotes are identified by their text: generated quotes have no stable id
+export const findCollected = (text: string): CollectedQuote | undefined =>
+  snapshot.find(item => item.text === text);
+
+export const addToCollection = (text: string, source: QuoteSource, tags: Tag[] = []): CollectedQuote => {
+  const existing = findCollected(text);
+  if (existing) return existing;
+
+  const item: CollectedQuote = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    text,
+    tags,
+    source,
+    savedAt: Date.now()
+  };
+  commit([item, ...snapshot]);
+  return item;
+};
+
+export const removeFromCollection = (id: string) => {
+  commit(snapshot.filter(item => item.id !== id));
+};
+
+export const clearCollection = () => {
+  commit([]);
+};
@@ -0,0 +1,74 @@
+import { CompliancePlatform, ComplianceTerm } from "../types";
+import { DEFAULT_COMPLIANCE_RULES } from "../utils/compliance";
+
+const STORAGE_KEY = 'dacheng.compliance.v1';
+
+export interface ComplianceSettings {
+  platform: CompliancePlatform | null; // null turns the checker off
+  avoidFlagged: boolean; // Ask the generator to keep the platform's terms out
+  // Edited word lists; platforms missing here use DEFAULT_COMPLIANCE_RULES, so new defaults still arrive
+  rules: Partial<Record<CompliancePlatform, ComplianceTerm[]>>;
+}
+
+const DEFAULT_SETTINGS: ComplianceSettings = { platform: 'douyin', avoidFlagged: false, rules: {} };
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readStorage = (): ComplianceSettings => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_SETTINGS, ...JSON.parse(raw) } : DEFAULT_SETTINGS;
+  } catch (error) {
+    console.warn("Failed to read compliance settings from localStorage:", error);
+    return DEFAULT_SETTINGS;
+  }
+};
+
+// Cached snapshot so useSyncExternalStore sees a stable reference between writes
+let snapshot: ComplianceSettings = readStorage();
+
+const commit = (next: ComplianceSettings) => {
+  snapshot = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to persist compliance settings:", error);
+  }
+  listeners.forEach(l => l());
+};
+
+// Keep multiple tabs in sync
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) {
+      snapshot = readStorage();
+      listeners.forEach(l => l());
+    }
+  });
+}
+
+export const subscribeCompliance = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getComplianceSettings = (): ComplianceSettings => snapshot;
+
+export const getPlatformTerms = (platform: CompliancePlatform, settings = snapshot): ComplianceTerm[] =>
+  settings.rules[platform] ?? DEFAULT_COMPLIANCE_RULES[platform];
+
+export const updateComplianceSettings = (changes: Partial<Omit<ComplianceSettings, 'rules'>>) => {
+  commit({ ...snapshot, ...changes });
+};
+
+export const setPlatformTerms = (platform: CompliancePlatform, terms: ComplianceTerm[]) => {
+  commit({ ...snapshot, rules: { ...snapshot.rules, [platform]: terms } });
+};
+
+export const resetPlatformTerms = (platform: CompliancePlatform) => {
+  const { [platform]: _removed, ...rules } = snapshot.rules;
+  commit({ ...snapshot, rules });
+};
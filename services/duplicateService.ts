@@ -0,0 +1,32 @@
+import { DuplicateMatch, Quote } from "../types";
+import { getLibrary } from "./libraryService";
+import { findMostSimilar, toNgrams } from "../utils/similarity";
+
+// Scores at or above this read as the same quote reworded
+export const DUPLICATE_THRESHOLD = 0.6;
+
+type Corpus = { item: Omit<DuplicateMatch, 'score'>; grams: Set<string> }[];
+
+// The library only changes on import, so its n-grams are kept until the snapshot changes
+let libraryCorpus: { source: Quote[]; corpus: Corpus } | null = null;
+
+const getLibraryCorpus = (): Corpus => {
+  const library = getLibrary();
+  if (libraryCorpus?.source !== library) {
+    libraryCorpus = {
+      source: library,
+      corpus: library.map(q => ({ item: { origin: 'library', text: q.text, quoteId: q.id }, grams: toNgrams(q.text) }))
+    };
+  }
+  return libraryCorpus.corpus;
+};
+
+// For each quote, the closest earlier quote (session history first, then the library) it nearly repeats
+export const findDuplicates = (quotes: string[], history: string[]): (DuplicateMatch | null)[] => {
+  const historyCorpus: Corpus = history.map(text => ({ item: { origin: 'history', text }, grams: toNgrams(text) }));
+  const corpus = [...historyCorpus, ...getLibraryCorpus()];
+  return quotes.map(text => {
+    const match = findMostSimilar(text, corpus, DUPLICATE_THRESHOLD);
+    return match ? { ...match.item, score: match.score } : null;
+  });
+};
@@ -0,0 +1,215 @@
+import { CallUsage } from "../types";
+
+// Typed failures of a generation request. Providers throw these (or raw SDK/fetch errors,
+// which toGenerationError classifies) and the UI maps the code to a message and recovery actions.
+
+export type GenerationErrorCode =
+  | 'missing-key'
+  | 'payload-too-large'
+  | 'rate-limited'
+  | 'safety-blocked'
+  | 'malformed-output'
+  | 'network'
+  | 'cancelled'
+  | 'budget-exceeded'
+  | 'unknown';
+
+export class GenerationError extends Error {
+  readonly code: GenerationErrorCode;
+  readonly retryable: boolean; // Worth repeating the same request automatically
+  usage?: CallUsage[]; // Tokens the failed call was billed for, when the model reported them before failing
+
+  constructor(code: GenerationErrorCode, message: string, { retryable = false, cause }: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.retryable = retryable;
+    if (cause !== undefined) {
+      (this as { cause?: unknown }).cause = cause;
+    }
+  }
+}
+
+export class MissingApiKeyError extends GenerationError {
+  constructor(message = "API key is missing or invalid", cause?: unknown) {
+    super('missing-key', message, { cause });
+  }
+}
+
+export class PayloadTooLargeError extends GenerationError {
+  constructor(message = "Request payload is too large", cause?: unknown) {
+    super('payload-too-large', message, { cause });
+  }
+}
+
+export class RateLimitedError extends GenerationError {
+  readonly retryAfterSeconds?: number;
+
+  constructor(message = "Rate limited by the model provider", retryAfterSeconds?: number, cause?: unknown) {
+    super('rate-limited', message, { retryable: true, cause });
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export class SafetyBlockedError extends GenerationError {
+  constructor(message = "Response blocked by the provider's safety filter", cause?: unknown) {
+    super('safety-blocked', message, { cause });
+  }
+}
+
+export class MalformedOutputError extends GenerationError {
+  readonly problems: string[];
+
+  constructor(problems: string[], cause?: unknown) {
+    super('malformed-output', `Model output failed validation: ${problems.join('; ')}`, { retryable: true, cause });
+    this.problems = problems;
+  }
+}
+
+export class NetworkError extends GenerationError {
+  constructor(message = "Network request failed", cause?: unknown) {
+    super('network', message, { retryable: true, cause });
+  }
+}
+
+// The user stopped the request; not a failure to report
+export class CancelledError extends GenerationError {
+  constructor(message = "Request was cancelled", cause?: unknown) {
+    super('cancelled', message, { cause });
+  }
+}
+
+// The daily budget cap is reached and set to block; raised before anything is sent
+export class BudgetExceededError extends GenerationError {
+  constructor(message = "Daily usage budget exceeded", cause?: unknown) {
+    super('budget-exceeded', message, { cause });
+  }
+}
+
+const RATE_LIMIT_PATTERN = /\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i;
+const PAYLOAD_PATTERN = /\b413\b|payload size|too large|request entity/i;
+const KEY_PATTERN = /API key not valid|API_KEY_INVALID|\b401\b|PERMISSION_DENIED|API Key not found/i;
+const SAFETY_PATTERN = /SAFETY|blockReason|PROHIBITED_CONTENT|content_filter/i;
+const NETWORK_PATTERN = /Rpc failed|xhr error|code: 6|Failed to fetch|Load failed|NetworkError|network|ECONNRESET|ETIMEDOUT|\b50[234]\b|UNAVAILABLE/i;
+
+// Attaches the usage of a call that reached the model but failed afterwards, e.g. on unparseable output
+export const withUsage = (error: GenerationError, usage: CallUsage | undefined): GenerationError => {
+  if (usage) error.usage = [usage];
+  return error;
+};
+
+// Maps anything thrown during generation onto the typed errors above, by HTTP status where the
+// SDK exposes one and by message otherwise. Errors that are already typed pass through.
+export const toGenerationError = (error: unknown): GenerationError => {
+  if (error instanceof GenerationError) return error;
+  // fetch, FileReader and the Gemini SDK all reject with an AbortError once their signal fires
+  if ((error as any)?.name === 'AbortError') return new CancelledError(undefined, error);
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status as number : undefined;
+
+  if (status === 429 || RATE_LIMIT_PATTERN.test(message)) return new RateLimitedError(message, undefined, error);
+  if (status === 413 || PAYLOAD_PATTERN.test(message)) return new PayloadTooLargeError(message, error);
+  if (status === 401 || status === 403 || KEY_PATTERN.test(message)) return new MissingApiKeyError(message, error);
+  if (SAFETY_PATTERN.test(message)) return new SafetyBlockedError(message, error);
+  if ((status !== undefined && status >= 500) || NETWORK_PATTERN.test(message)) {
+    return new NetworkError(message, error);
+  }
+  return new GenerationError('unknown', message, { cause: error });
+};
+
+// How a GenerationError travels from the proxy server to the browser
+export interface GenerationErrorPayload {
+  code: GenerationErrorCode;
+  message: string;
+  retryAfterSeconds?: number;
+  problems?: string[];
+  usage?: CallUsage[];
+}
+
+export const toErrorPayload = (error: GenerationError): GenerationErrorPayload => ({
+  code: error.code,
+  message: error.message,
+  retryAfterSeconds: error instanceof RateLimitedError ? error.retryAfterSeconds : undefined,
+  problems: error instanceof MalformedOutputError ? error.problems : undefined,
+  usage: error.usage
+});
+
+const errorFromPayload = (payload: Partial<GenerationErrorPayload> | undefined, message: string): GenerationError => {
+  switch (payload?.code) {
+    case 'missing-key': return new MissingApiKeyError(message);
+    case 'payload-too-large': return new PayloadTooLargeError(message);
+    case 'rate-limited': return new RateLimitedError(message, payload.retryAfterSeconds);
+    case 'safety-blocked': return new SafetyBlockedError(message);
+    case 'malformed-output': return new MalformedOutputError(payload.problems?.length ? payload.problems : [message]);
+    case 'network': return new NetworkError(message);
+    case 'cancelled': return new CancelledError(message);
+    case 'budget-exceeded': return new BudgetExceededError(message);
+    default: return toGenerationError(new Error(message));
+  }
+};
+
+// Rebuilds the typed error on the client, so retries and recovery actions work as with a direct call
+export const fromErrorPayload = (payload: Partial<GenerationErrorPayload> | undefined, fallbackMessage: string): GenerationError => {
+  const error = errorFromPayload(payload, payload?.message || fallbackMessage);
+  if (payload?.usage?.length) error.usage = payload.usage;
+  return error;
+};
+
+// What the UI can offer after a failure
+export type RecoveryAction = 'retry' | 'text-only' | 'shorten-segment' | 'edit-topic';
+
+export interface ErrorDescription {
+  message: string;
+  actions: RecoveryAction[];
+}
+
+export const describeGenerationError = (error: GenerationError, hasVideo: boolean): ErrorDescription => {
+  switch (error.code) {
+    case 'missing-key':
+      return {
+        message: "未配置或无效的 API Key：请在 .env.local 中设置 GEMINI_API_KEY 后重启代理服务 (npm run server)，或设置 QUOTE_PROVIDER=mock 使用离线模拟。",
+        actions: []
+      };
+    case 'payload-too-large':
+      return {
+        message: "视频数据过大，模型拒收。请缩短分析片段，或仅使用【自定义主题】进行生成。",
+        actions: hasVideo ? ['shorten-segment', 'text-only'] : []
+      };
+    case 'rate-limited':
+      return {
+        message: "请求太频繁或今日额度已用完，请稍等一分钟后再试。",
+        actions: ['retry']
+      };
+    case 'safety-blocked':
+      return {
+        message: "内容被模型的安全策略拦截。请换一个说法或主题，避开过激词汇后再试。",
+        actions: ['edit-topic']
+      };
+    case 'malformed-output':
+      return {
+        message: "模型返回的内容格式不完整，自动重试后仍未成功，可以直接再试一次。",
+        actions: ['retry']
+      };
+    case 'cancelled':
+      return {
+        message: "已取消。",
+        actions: []
+      };
+    case 'budget-exceeded':
+      return {
+        message: "今日用量已达到预算上限。可以在【用量】中调高或取消上限，或明天再试。",
+        actions: []
+      };
+    case 'network':
+      return {
+        message: "网络传输失败：视频上传中断，请检查网络后重试，或仅使用【自定义主题】进行生成。",
+        actions: hasVideo ? ['retry', 'text-only'] : ['retry']
+      };
+    default:
+      return {
+        message: error.message || "分析过程中发生未知错误，请重试。",
+        actions: ['retry']
+      };
+  }
+};
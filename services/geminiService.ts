@@ -1,109 +1,104 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { AnalysisResult } from "../types";
-import { SYSTEM_PROMPT } from "../utils/constants";
-
-// Helper to convert Blob to Base64
-const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      if (typeof reader.result === 'string') {
-        // Remove the data URL prefix (e.g., "data:video/mp4;base64,")
-        const base64 = reader.result.split(',')[1];
-        resolve(base64);
-      } else {
-        reject(new Error("Failed to convert blob to base64"));
-      }
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-};
+import { GoogleGenAI, Type, FileState, createPartFromUri, GenerateContentResponseUsageMetadata } from "@google/genai";
+import { AnalysisResult, AnalysisOptions, CallUsage, MediaPayload, RewriteRequest, RewriteResult } from "../types";
+import { buildSystemPrompt } from "./presetService";
+import { buildAnalysisPrompt, buildRewritePrompt } from "./promptBuilder";
+import { INLINE_PAYLOAD_LIMIT } from "./mediaService";
+import { parseAnalysisResponse, parseRewriteResponse } from "./responseValidator";
+import { MalformedOutputError, MissingApiKeyError, RateLimitedError, SafetyBlockedError, toGenerationError, withUsage } from "./errors";
+import { sleep, throwIfAborted } from "./cancellation";
+
+// Gemini access for the proxy server (server/index.ts). The key never reaches the browser,
+// which talks to the proxy through services/proxyService.ts instead.
 
-interface AnalysisOptions {
-  customInstruction?: string;
-  targetDuration: '10s' | '15s' | '25s' | '60s' | '3m' | '5m';
-  avoidQuotes?: string[]; // New: List of quotes to avoid repeating
-}
+export const GEMINI_MODEL = "gemini-2.5-flash";
+export const GEMINI_LABEL = "Gemini 2.5 Flash";
 
-const generateWithRetry = async (ai: GoogleGenAI, params: any, retries = 2): Promise<any> => {
+// Sends large media through the Files API and waits until it can be referenced by URI
+const uploadToGemini = async (ai: GoogleGenAI, blob: Blob, mimeType: string, signal?: AbortSignal) => {
+  let file = await ai.files.upload({ file: blob, config: { mimeType, abortSignal: signal } });
+  while (file.state === FileState.PROCESSING && file.name) {
+    await sleep(2000, signal);
+    file = await ai.files.get({ name: file.name, config: { abortSignal: signal } });
+  }
+  if (file.state === FileState.FAILED || !file.uri) {
+    throw new Error("Gemini file upload failed to process");
+  }
+  return createPartFromUri(file.uri, file.mimeType || mimeType);
+};
+
+// Retries the request itself; a stream that fails midway is not retried.
+// Only transient failures (network, 5xx, rate limits) are retried, and a cancelled signal ends the wait.
+const generateWithRetry = async <T>(request: () => Promise<T>, signal?: AbortSignal, retries = 2): Promise<T> => {
   try {
-    return await ai.models.generateContent(params);
-  } catch (error: any) {
-    if (retries > 0 && (error.message?.includes('Rpc failed') || error.message?.includes('503'))) {
+    throwIfAborted(signal);
+    return await request();
+  } catch (error) {
+    const typed = toGenerationError(error);
+    if (retries > 0 && typed.retryable && !signal?.aborted) {
       console.warn(`Retrying request... attempts left: ${retries}`);
-      await new Promise(res => setTimeout(res, 2000)); // Wait 2s
-      return generateWithRetry(ai, params, retries - 1);
+      // Rate limits need longer than a dropped connection
+      const delay = typed instanceof RateLimitedError ? (typed.retryAfterSeconds ?? 5) * 1000 : 2000;
+      await sleep(delay, signal);
+      return generateWithRetry(request, signal, retries - 1);
     }
-    throw error;
+    throw typed;
   }
 };
 
-export const analyzeVideoAndGenerateQuotes = async (
-  videoFile: File | null, 
-  options: AnalysisOptions
-): Promise<AnalysisResult> => {
-  try {
-    const apiKey = process.env.API_KEY;
-    if (!apiKey) {
-      throw new Error("API Key not found in environment");
-    }
+export const createGeminiClient = (apiKey: string | undefined) => {
+  if (!apiKey) {
+    throw new MissingApiKeyError("API Key not found in environment");
+  }
+  return new GoogleGenAI({ apiKey });
+};
 
-    const ai = new GoogleGenAI({ apiKey });
+// Thinking tokens are billed as output
+const toCallUsage = (metadata: GenerateContentResponseUsageMetadata | undefined, startedAt: number): CallUsage => ({
+  model: GEMINI_MODEL,
+  inputTokens: metadata?.promptTokenCount ?? 0,
+  outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+  latencyMs: Date.now() - startedAt
+});
 
-    // Build the prompt parts
-    const parts: any[] = [];
-    let prompt = "";
-
-    // If video exists, add it to parts
-    if (videoFile) {
-      const base64Video = await blobToBase64(videoFile);
-      parts.push({
-        inlineData: {
-          mimeType: videoFile.type,
-          data: base64Video
-        }
-      });
-      prompt += "请分析这段视频的音频/旁白内容。\n1. 提供视频内容的逐字稿或详细摘要。\n2. 基于视频内容，创作3句'大承活法'风格的扎心语录。";
-    } else {
-      // Text only mode
-      prompt += "请基于用户提供的主题，创作3句'大承活法'风格的扎心语录。";
-    }
-    
-    // Add Custom Instruction
-    if (options.customInstruction && options.customInstruction.trim() !== "") {
-      prompt += `\n\n【用户自定义主题】：请重点结合主题 "${options.customInstruction}" 进行创作。`;
-    } else if (!videoFile) {
-      // If no video AND no custom instruction, we need a fallback, though UI prevents this.
-      prompt += `\n\n【创作主题】：请自由发挥，关于成年人的生活压力，房贷，车贷，工作。`;
-    }
+// Small payloads go inline; larger ones through the Files API
+const toMediaPart = async (ai: GoogleGenAI, media: MediaPayload, signal?: AbortSignal) => {
+  if (media.blob.size > INLINE_PAYLOAD_LIMIT) {
+    return uploadToGemini(ai, media.blob, media.mimeType, signal);
+  }
+  const bytes = Buffer.from(await media.blob.arrayBuffer());
+  return { inlineData: { mimeType: media.mimeType, data: bytes.toString('base64') } };
+};
 
-    // Add Duration/Length logic - Updated to match user's sample text length (approx 300 chars for 60s)
-    const durationMap = {
-      '10s': "极短（读完约10秒），适合短视频标题，一针见血，20字左右。",
-      '15s': "短句（读完约15秒），适合金句卡片，35字左右。",
-      '25s': "中长句（读完约25秒），适合口播文案，60字左右，有情绪铺垫。",
-      '60s': "长独白（读完约60秒），字数请务必参考“房贷”参考文案，约300字左右，深度剖析。",
-      '3m': "深度长文（读完约3分钟），800字左右，层层递进，直击痛点，类似于一篇完整的社会观察小作文。",
-      '5m': "纪录片式超长独白（读完约5分钟），1500字以上，宏大叙事与微观痛苦结合，极度扎心，细节丰富。"
-    };
-    prompt += `\n\n【时长要求】：${durationMap[options.targetDuration] || "适中长度"}`;
-
-    // Add Avoidance Logic
-    if (options.avoidQuotes && options.avoidQuotes.length > 0) {
-        prompt += `\n\n【禁止重复】：请务必【不要】生成与以下内容雷同的语录，必须尝试新的切入点、风格或修辞：\n${JSON.stringify(options.avoidQuotes)}`;
+// Streams the analysis, reporting the accumulated text as it arrives, and returns the validated result
+export const analyzeWithGemini = async (
+  ai: GoogleGenAI,
+  media: MediaPayload | null,
+  options: AnalysisOptions,
+  onText?: (accumulatedText: string) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  // Tokens reported so far, kept for the error when the stream breaks off or the reply is unusable
+  let billed: CallUsage | undefined;
+  try {
+    const parts: any[] = [];
+    const mediaTrimmed = !!media?.trimmed;
+    if (media) {
+      parts.push(await toMediaPart(ai, media, signal));
     }
 
-    parts.push({ text: prompt });
+    parts.push({ text: buildAnalysisPrompt(!!media, options, mediaTrimmed) });
 
+    // Latency covers the model call only, not the media upload
+    const startedAt = Date.now();
     // Use retry logic for stability
-    const response = await generateWithRetry(ai, {
-      model: "gemini-2.5-flash",
+    const stream = await generateWithRetry(() => ai.models.generateContentStream({
+      model: GEMINI_MODEL,
       contents: {
         parts: parts
       },
       config: {
-        systemInstruction: SYSTEM_PROMPT,
+        abortSignal: signal,
+        systemInstruction: buildSystemPrompt(options.preset),
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -113,22 +108,99 @@ export const analyzeVideoAndGenerateQuotes = async (
               type: Type.ARRAY,
               items: { type: Type.STRING },
               description: "3 generated heart-wrenching quotes"
+            },
+            segments: {
+              type: Type.ARRAY,
+              description: "Timestamped transcript segments of the media; empty if no video provided",
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  start: { type: Type.NUMBER, description: "Segment start in seconds" },
+                  end: { type: Type.NUMBER, description: "Segment end in seconds" },
+                  text: { type: Type.STRING }
+                },
+                required: ["start", "end", "text"]
+              }
+            },
+            quoteSegments: {
+              type: Type.ARRAY,
+              description: "For each generated quote, the indices of the segments it drew from",
+              items: { type: Type.ARRAY, items: { type: Type.INTEGER } }
             }
           }
         }
       }
-    });
+    }), signal);
+
+    let text = "";
+    for await (const chunk of stream) {
+      throwIfAborted(signal);
+      // Counts are cumulative; the last chunk carries the totals
+      if (chunk.usageMetadata) billed = toCallUsage(chunk.usageMetadata, startedAt);
+      const blockReason = chunk.promptFeedback?.blockReason;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+        throw new SafetyBlockedError(`Gemini blocked the response: ${blockReason || finishReason}`);
+      }
+      if (chunk.text) {
+        text += chunk.text;
+        onText?.(text);
+      }
+    }
 
-    const text = response.text;
     if (!text) {
-      throw new Error("No response from Gemini");
+      throw new MalformedOutputError(["Gemini 没有返回内容"]);
+    }
+
+    const result = parseAnalysisResponse(text, !!media);
+    result.usage = [billed ?? toCallUsage(undefined, startedAt)];
+
+    // Timestamps of a trimmed payload are relative to the selection; map them back onto the full video
+    if (mediaTrimmed && options.videoRange && result.segments) {
+      const offset = options.videoRange.start;
+      result.segments = result.segments.map(seg => ({ ...seg, start: seg.start + offset, end: seg.end + offset }));
     }
 
-    const result = JSON.parse(text) as AnalysisResult;
     return result;
 
   } catch (error) {
-    console.error("Gemini Analysis Error:", error);
-    throw error;
+    throw withUsage(toGenerationError(error), billed);
   }
-};
\ No newline at end of file
+};
+
+export const rewriteWithGemini = async (
+  ai: GoogleGenAI,
+  text: string,
+  request: RewriteRequest,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<RewriteResult> => {
+  const startedAt = Date.now();
+  const response = await generateWithRetry(() => ai.models.generateContent({
+    model: GEMINI_MODEL,
+    contents: buildRewritePrompt(text, request),
+    config: {
+      abortSignal: signal,
+      systemInstruction: buildSystemPrompt(options.preset),
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          quote: { type: Type.STRING, description: "The rewritten quote" }
+        },
+        required: ["quote"]
+      }
+    }
+  }), signal);
+
+  // Blocked or unparseable replies are billed too
+  const usage = toCallUsage(response.usageMetadata, startedAt);
+  if (response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason === 'SAFETY') {
+    throw withUsage(new SafetyBlockedError(`Gemini blocked the rewrite: ${response.promptFeedback?.blockReason || 'SAFETY'}`), usage);
+  }
+  try {
+    return { quote: parseRewriteResponse(response.text || ''), usage };
+  } catch (error) {
+    throw withUsage(toGenerationError(error), usage);
+  }
+};
@@ -0,0 +1,119 @@
+import { Quote } from "../types";
+import { Tag } from "../utils/tags";
+import { RawQuote, validateQuotes, parseLibrary, serializeLibrary, LibraryFormat, ValidationIssue } from "../utils/libraryFormats";
+import mortgage from "../data/quotes/mortgage.json";
+import workplace from "../data/quotes/workplace.json";
+import marriage from "../data/quotes/marriage.json";
+import money from "../data/quotes/money.json";
+import loneliness from "../data/quotes/loneliness.json";
+import humanNature from "../data/quotes/human-nature.json";
+import lyingFlat from "../data/quotes/lying-flat.json";
+
+const STORAGE_KEY = 'dacheng.library.imported.v1';
+
+// Built-in data is validated once at startup; a broken data file should fail loudly in development
+const loadBuiltIn = (): Quote[] => {
+  const raw: RawQuote[] = [mortgage, workplace, marriage, money, loneliness, humanNature, lyingFlat].flat();
+  const issues = validateQuotes(raw);
+  if (issues.length > 0) {
+    const details = issues.map(i => `#${i.index} (id ${raw[i.index]?.id}): ${i.message}`).join('\n');
+    throw new Error(`Invalid quote data in data/quotes:\n${details}`);
+  }
+  return raw.map(q => ({ id: q.id!, tags: q.tags as Tag[], text: q.text }));
+};
+
+// 内置语录库 - 深度长文与扎心金句集合
+export const BUILT_IN_QUOTES: Quote[] = loadBuiltIn();
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readImported = (): Quote[] => {
+  // No storage when the proxy server's stub model draws from the library
+  if (typeof localStorage === 'undefined') return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    // Entries saved before multi-tag support carry a single category
+    return parsed.map((q: any) => q.tags ? q : { id: q.id, tags: q.category ? [q.category] : [], text: q.text });
+  } catch (error) {
+    console.warn("Failed to read imported quotes from localStorage:", error);
+    return [];
+  }
+};
+
+let imported: Quote[] = readImported();
+let snapshot: Quote[] = [...BUILT_IN_QUOTES, ...imported];
+
+const commit = (next: Quote[]) => {
+  imported = next;
+  snapshot = [...BUILT_IN_QUOTES, ...imported];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to persist imported quotes:", error);
+  }
+  listeners.forEach(l => l());
+};
+
+export const subscribeLibrary = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Built-in quotes followed by quotes imported in this browser
+export const getLibrary = (): Quote[] => snapshot;
+
+export const getImportedCount = () => imported.length;
+
+export interface ImportReport {
+  added: number;
+  skipped: number; // Same text already in the library
+  issues: ValidationIssue[]; // Nothing is imported when this is non-empty
+}
+
+// Validates the whole file first, then merges: exact duplicates are skipped,
+// and missing or clashing ids are replaced with fresh ones.
+export const importLibrary = (content: string, format: LibraryFormat): ImportReport => {
+  const raw = parseLibrary(content, format);
+  const issues = validateQuotes(raw, false);
+  if (issues.length > 0) {
+    return { added: 0, skipped: 0, issues };
+  }
+
+  const texts = new Set(snapshot.map(q => q.text.trim()));
+  const ids = new Set(snapshot.map(q => q.id));
+  let nextId = Math.max(0, ...ids) + 1;
+  const added: Quote[] = [];
+  let skipped = 0;
+
+  for (const q of raw) {
+    const text = q.text.trim();
+    if (texts.has(text)) {
+      skipped++;
+      continue;
+    }
+    let id = q.id;
+    if (id === undefined || ids.has(id)) {
+      id = nextId++;
+    }
+    ids.add(id);
+    texts.add(text);
+    added.push({ id, tags: q.tags as Tag[], text });
+  }
+
+  if (added.length > 0) {
+    commit([...imported, ...added]);
+  }
+  return { added: added.length, skipped, issues: [] };
+};
+
+export const exportLibrary = (format: LibraryFormat): string => serializeLibrary(snapshot, format);
+
+export const clearImportedQuotes = () => {
+  commit([]);
+};
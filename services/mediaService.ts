@@ -0,0 +1,284 @@
+import { MediaStrategy, PreparedMedia, TimeRange } from "../types";
+import { abortable, throwIfAborted } from "./cancellation";
+import { CancelledError, PayloadTooLargeError } from "./errors";
+import { pickRecorderMimeType } from "../utils/videoComposer";
+
+// Inline requests are capped at ~20MB and base64 inflates payloads by 4/3
+export const INLINE_PAYLOAD_LIMIT = 14 * 1024 * 1024;
+
+// Largest upload the proxy accepts unless PROXY_MAX_UPLOAD_MB says otherwise
+export const DEFAULT_MAX_UPLOAD_MB = 200;
+const MAX_UPLOAD_BYTES = DEFAULT_MAX_UPLOAD_MB * 1024 * 1024;
+
+// decodeAudioData holds the whole track as 32-bit float PCM at the device rate (~23MB per stereo minute
+// at 48kHz) and needs the whole file in memory first. Past this either way, decoding would crash the tab.
+const MAX_DECODE_BYTES = 512 * 1024 * 1024;
+const DECODED_BYTES_PER_SECOND = 48000 * 2 * 4;
+
+// Recorded clips only need to show the scene to the model; 5 minutes come to about 40MB
+const CLIP_VIDEO_BITS_PER_SECOND = 1_000_000;
+
+// Speech models only need narrowband mono audio: 16kHz * 16bit = 32KB/s, ~9.6MB for 5 minutes
+const TARGET_SAMPLE_RATE = 16000;
+
+const readAsArrayBuffer = (blob: Blob, onProgress?: (fraction: number) => void, signal?: AbortSignal): Promise<ArrayBuffer> => {
+  return new Promise((resolve, reject) => {
+    throwIfAborted(signal);
+    const reader = new FileReader();
+    signal?.addEventListener('abort', () => reader.abort(), { once: true });
+    reader.onabort = () => reject(new CancelledError());
+    reader.onprogress = (e) => {
+      if (onProgress && e.lengthComputable) {
+        onProgress(e.loaded / e.total);
+      }
+    };
+    reader.onloadend = () => {
+      if (reader.result instanceof ArrayBuffer) {
+        resolve(reader.result);
+      } else {
+        reject(new Error("Failed to read media file"));
+      }
+    };
+    reader.onerror = reject;
+    reader.readAsArrayBuffer(blob);
+  });
+};
+
+// 16-bit PCM mono WAV
+const encodeWav = (samples: Float32Array, sampleRate: number): Blob => {
+  const buffer = new ArrayBuffer(44 + samples.length * 2);
+  const view = new DataView(buffer);
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) view.setUint8(offset + i, str.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);          // fmt chunk size
+  view.setUint16(20, 1, true);           // PCM
+  view.setUint16(22, 1, true);           // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // byte rate
+  view.setUint16(32, 2, true);           // block align
+  view.setUint16(34, 16, true);          // bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+
+  let offset = 44;
+  for (let i = 0; i < samples.length; i++, offset += 2) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    view.setInt16(offset, s < 0 ? s * 0x8000 : s * 0x7fff, true);
+  }
+  return new Blob([buffer], { type: 'audio/wav' });
+};
+
+// Decodes the audio track of a video in the browser and downsamples it to 16kHz mono WAV,
+// optionally keeping only the given range. The decoder can't start mid-file, so the whole track
+// is decoded even for a range; files too large for that are refused before reading them.
+export const extractAudio = async (
+  file: Blob,
+  onProgress?: (fraction: number) => void,
+  range?: TimeRange,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  const report = onProgress || (() => {});
+  const duration = await abortable(readVideoDuration(file).catch(() => 0), signal);
+  if (file.size > MAX_DECODE_BYTES || duration * DECODED_BYTES_PER_SECOND > MAX_DECODE_BYTES) {
+    throw new Error("Media too large to decode in the browser");
+  }
+  const arrayBuffer = await readAsArrayBuffer(file, f => report(f * 0.4), signal);
+
+  const audioContext = new AudioContext();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await abortable(audioContext.decodeAudioData(arrayBuffer), signal);
+  } finally {
+    audioContext.close();
+  }
+  report(0.7);
+
+  const start = Math.max(0, range?.start ?? 0);
+  const end = Math.min(decoded.duration, range?.end ?? decoded.duration);
+  if (end <= start) {
+    throw new Error("Selected range is empty");
+  }
+
+  // OfflineAudioContext resamples and downmixes to its own rate/channel count
+  const offline = new OfflineAudioContext(1, Math.ceil((end - start) * TARGET_SAMPLE_RATE), TARGET_SAMPLE_RATE);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination);
+  source.start(0, start, end - start);
+  const rendered = await abortable(offline.startRendering(), signal);
+  report(0.9);
+
+  const wav = encodeWav(rendered.getChannelData(0), TARGET_SAMPLE_RATE);
+  report(1);
+  return wav;
+};
+
+// Length of a video file in seconds, read from its metadata without decoding it
+export const readVideoDuration = (file: Blob): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.onloadedmetadata = () => {
+      URL.revokeObjectURL(url);
+      resolve(video.duration);
+    };
+    video.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Failed to read video metadata"));
+    };
+    video.src = url;
+  });
+};
+
+// Plays the range in a hidden element and records picture and sound, for files too large to decode or
+// send whole. MediaRecorder only captures what is actually played, so this takes as long as the range.
+export const recordRange = (
+  file: File,
+  range: TimeRange,
+  onProgress?: (fraction: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new CancelledError());
+      return;
+    }
+    const url = URL.createObjectURL(file);
+    const video = document.createElement('video');
+    const context = new AudioContext();
+    let recorder: MediaRecorder | null = null;
+    const chunks: Blob[] = [];
+
+    const cleanup = () => {
+      signal?.removeEventListener('abort', onAbort);
+      video.pause();
+      video.removeAttribute('src');
+      video.load();
+      URL.revokeObjectURL(url);
+      context.close();
+    };
+    const fail = (error: unknown) => {
+      if (recorder && recorder.state !== 'inactive') {
+        recorder.onstop = null;
+        recorder.stop();
+      }
+      cleanup();
+      reject(error);
+    };
+    const finish = () => {
+      if (recorder?.state === 'recording') recorder.stop();
+    };
+    const onAbort = () => fail(new CancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const start = () => {
+      video.removeEventListener('seeked', start);
+      try {
+        // The element's sound goes into the recording instead of the speakers
+        const destination = context.createMediaStreamDestination();
+        context.createMediaElementSource(video).connect(destination);
+        const capture: MediaStream = (video as any).captureStream?.() ?? (video as any).mozCaptureStream();
+        const stream = new MediaStream([...capture.getVideoTracks(), ...destination.stream.getAudioTracks()]);
+        const mimeType = pickRecorderMimeType();
+        recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: CLIP_VIDEO_BITS_PER_SECOND });
+        recorder.ondataavailable = (e) => {
+          if (e.data.size > 0) chunks.push(e.data);
+        };
+        recorder.onstop = () => {
+          cleanup();
+          resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+        };
+        recorder.onerror = () => fail(new Error("MediaRecorder failed"));
+        recorder.start(1000);
+        context.resume();
+        video.play().catch(fail);
+      } catch (error) {
+        fail(error);
+      }
+    };
+
+    // timeupdate keeps firing in background tabs, unlike animation frames
+    video.ontimeupdate = () => {
+      onProgress?.(Math.min(1, Math.max(0, (video.currentTime - range.start) / (range.end - range.start))));
+      if (video.currentTime >= range.end) finish();
+    };
+    video.onended = finish;
+    video.onerror = () => fail(new Error("Failed to play media for recording"));
+    video.onloadedmetadata = () => {
+      video.addEventListener('seeked', start);
+      video.currentTime = range.start;
+    };
+    video.preload = 'auto';
+    video.playsInline = true;
+    video.src = url;
+  });
+};
+
+// Picks the cheapest payload that still fits in a request:
+// small files go inline untouched, large ones are reduced to their audio track,
+// and anything that cannot be reduced is left to the provider's file-upload API.
+// A range goes through audio extraction first, since that trims it cheaply; if that fails the whole
+// file is sent and the range is passed to the model in the prompt. Files over the proxy's upload
+// limit have the range (or the whole, short video) recorded as a small clip instead, and when even
+// that fails the request is refused here rather than by the proxy after a long upload.
+export const prepareMedia = async (
+  file: File,
+  onProgress?: (fraction: number) => void,
+  range?: TimeRange,
+  signal?: AbortSignal
+): Promise<PreparedMedia> => {
+  const describe = (blob: Blob, mimeType: string, strategy: MediaStrategy, trimmed = false): PreparedMedia => ({
+    blob,
+    mimeType,
+    strategy,
+    originalBytes: file.size,
+    bytes: blob.size,
+    trimmed
+  });
+
+  if (!range && file.size <= INLINE_PAYLOAD_LIMIT) {
+    onProgress?.(1);
+    return describe(file, file.type, MediaStrategy.ORIGINAL);
+  }
+
+  try {
+    const audio = await extractAudio(file, onProgress, range, signal);
+    if (audio.size <= INLINE_PAYLOAD_LIMIT) {
+      return describe(audio, 'audio/wav', MediaStrategy.AUDIO, !!range);
+    }
+  } catch (error) {
+    if (error instanceof CancelledError) throw error;
+    // Unsupported codec, no audio track or too large to decode; fall through to sending the file
+    console.warn("Audio extraction failed, falling back to file upload:", error);
+  }
+
+  if (file.size <= INLINE_PAYLOAD_LIMIT) {
+    onProgress?.(1);
+    return describe(file, file.type, MediaStrategy.ORIGINAL);
+  }
+  if (file.size <= MAX_UPLOAD_BYTES) {
+    onProgress?.(1);
+    return describe(file, file.type, MediaStrategy.UPLOAD);
+  }
+
+  try {
+    const clipRange = range ?? { start: 0, end: await abortable(readVideoDuration(file), signal) };
+    const clip = await recordRange(file, clipRange, onProgress, signal);
+    if (clip.size <= MAX_UPLOAD_BYTES) {
+      return describe(clip, clip.type, MediaStrategy.CLIP, !!range);
+    }
+  } catch (error) {
+    if (error instanceof CancelledError) throw error;
+    console.warn("Recording the range failed:", error);
+  }
+  throw new PayloadTooLargeError(
+    `Video is ${Math.round(file.size / 1024 / 1024)}MB, over the ${DEFAULT_MAX_UPLOAD_MB}MB upload limit, and could not be reduced in the browser`
+  );
+};
@@ -0,0 +1,134 @@
+import { AnalysisResult, AnalysisOptions, AnalysisProgressHandler, CallUsage, QuoteGenerationProvider, Quote, RewriteRequest, RewriteResult } from "../types";
+import { BUILT_IN_QUOTES } from "./libraryService";
+import { hashString, createSeededRandom } from "../utils/random";
+import { createProgressReporter } from "./progressReporter";
+import { splitSentences, countReadableChars } from "../utils/text";
+import { sleep } from "./cancellation";
+import { buildSystemPrompt } from "./presetService";
+import { buildAnalysisPrompt, buildRewritePrompt } from "./promptBuilder";
+import { estimateTokens } from "../utils/usage";
+
+const MOCK_STREAM_CHUNKS = 20;
+
+interface MockProviderConfig {
+  delayMs?: number; // Simulated latency, 0 for tests
+  quotes?: Quote[]; // Pool to draw from, defaults to BUILT_IN_QUOTES
+}
+
+// Deterministic offline provider: the same inputs always yield the same result,
+// so the create flow can be demoed without a key and exercised by automated tests.
+export const createMockProvider = ({ delayMs = 800, quotes = BUILT_IN_QUOTES }: MockProviderConfig = {}): QuoteGenerationProvider => {
+  const wait = (ms: number, signal?: AbortSignal) => sleep(Math.max(ms, 0), signal);
+
+  // What the real prompt and reply would roughly cost, so the usage display works offline
+  const estimateUsage = (prompt: string, reply: string, startedAt: number): CallUsage => ({
+    model: 'mock',
+    inputTokens: estimateTokens(prompt),
+    outputTokens: estimateTokens(reply),
+    latencyMs: Date.now() - startedAt
+  });
+
+  const generate = async (
+    videoFile: File | null,
+    options: AnalysisOptions,
+    onProgress?: AnalysisProgressHandler,
+    signal?: AbortSignal
+  ): Promise<AnalysisResult> => {
+    const progress = createProgressReporter(!!videoFile, options, onProgress);
+    const startedAt = Date.now();
+
+    if (videoFile) progress.encoding(1);
+    progress.uploading();
+    progress.thinking();
+    await wait(delayMs / 2, signal);
+
+    const topic = options.customInstruction?.trim() || '';
+    const avoid = new Set(options.avoidQuotes || []);
+    const seed = hashString(`${videoFile?.name || ''}|${topic}|${options.targetDuration}|${avoid.size}`);
+    const random = createSeededRandom(seed);
+
+    // Prefer quotes whose category or text mentions the topic
+    const matching = topic
+      ? quotes.filter(q => q.text.includes(topic) || q.tags.some(tag => tag.includes(topic)))
+      : [];
+    const pool = (matching.length >= 3 ? matching : quotes).filter(q => !avoid.has(q.text));
+    const source = pool.length >= 3 ? pool : quotes;
+
+    // Seeded Fisher-Yates, only as far as we need
+    const picked = [...source];
+    const count = Math.min(3, picked.length);
+    for (let i = 0; i < count; i++) {
+      const j = i + Math.floor(random() * (picked.length - i));
+      [picked[i], picked[j]] = [picked[j], picked[i]];
+    }
+
+    const rangeText = options.videoRange
+      ? `（${Math.round(options.videoRange.start)}s–${Math.round(options.videoRange.end)}s）`
+      : '';
+    const transcription = videoFile
+      ? `【离线模拟】视频《${videoFile.name}》${rangeText}的内容摘要（模拟数据，未进行真实分析）。`
+      : `【离线模拟】创作主题：${topic || '成年人的生活压力'}（模拟数据）。`;
+
+    const generatedQuotes = picked.slice(0, count).map(q => q.text);
+    const result: AnalysisResult = { transcription, generatedQuotes };
+
+    // Fake an evenly spaced transcript so the click-to-seek UI can be exercised offline
+    if (videoFile) {
+      const start = options.videoRange?.start ?? 0;
+      const end = options.videoRange?.end ?? start + 30;
+      const step = (end - start) / generatedQuotes.length;
+      result.segments = generatedQuotes.map((text, i) => ({
+        start: start + i * step,
+        end: start + (i + 1) * step,
+        text: `【模拟片段${i + 1}】${text.slice(0, 20)}…`
+      }));
+      result.quoteSegments = generatedQuotes.map((_, i) => [i]);
+    }
+
+    // Replay the JSON in slices so the streaming UI gets exercised too
+    const json = JSON.stringify(result);
+    const chunkSize = Math.ceil(json.length / MOCK_STREAM_CHUNKS);
+    for (let end = chunkSize; end < json.length + chunkSize; end += chunkSize) {
+      await wait(delayMs / 2 / MOCK_STREAM_CHUNKS, signal);
+      progress.receive(json.slice(0, end));
+    }
+
+    const prompt = buildSystemPrompt(options.preset) + buildAnalysisPrompt(!!videoFile, options);
+    return { ...result, usage: [estimateUsage(prompt, json, startedAt)] };
+  };
+
+  // Length rewrites are simulated by repeating or cutting whole sentences; anything else is only labelled
+  const rewriteText = (text: string, request: RewriteRequest): string => {
+    const target = request.targetChars;
+    if (!target) {
+      // Label once, so repeated refinements don't stack prefixes
+      return `【模拟改写】${text.replace(/^【模拟改写】/, '')}`;
+    }
+    const sentences = splitSentences(text);
+    if (!sentences.length) return text;
+    const out: string[] = [];
+    for (let i = 0; countReadableChars(out.join('')) < target; i++) {
+      const next = sentences[i % sentences.length];
+      if (out.length && countReadableChars(out.join('') + next) > target * 1.2) break;
+      out.push(next);
+    }
+    return out.join('');
+  };
+
+  const rewrite = async (text: string, request: RewriteRequest, options: AnalysisOptions, signal?: AbortSignal): Promise<RewriteResult> => {
+    const startedAt = Date.now();
+    await wait(delayMs / 4, signal);
+    const quote = rewriteText(text, request);
+    return { quote, usage: estimateUsage(buildSystemPrompt(options.preset) + buildRewritePrompt(text, request), quote, startedAt) };
+  };
+
+  return {
+    id: 'mock',
+    label: '离线模拟 (Mock)',
+    supportsVideo: true,
+    generate,
+    rewrite
+  };
+};
+
+export const mockProvider = createMockProvider();
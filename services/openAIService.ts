@@ -0,0 +1,164 @@
+import { AnalysisResult, AnalysisOptions, CallUsage, RewriteRequest, RewriteResult } from "../types";
+import { buildSystemPrompt } from "./presetService";
+import { buildAnalysisPrompt, buildRewritePrompt } from "./promptBuilder";
+import { readSSE } from "../utils/sse";
+import { parseAnalysisResponse, parseRewriteResponse } from "./responseValidator";
+import { CancelledError, MalformedOutputError, RateLimitedError, SafetyBlockedError, toGenerationError, withUsage } from "./errors";
+
+// Server side only: called by the proxy (server/models.ts), so the key never reaches the browser.
+// Works with OpenAI itself and any server exposing the same /chat/completions API
+// (Ollama, LM Studio, vLLM, ...). Local servers usually need no key.
+export interface OpenAIConfig {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+}
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+export const DEFAULT_OPENAI_MODEL = 'qwen2.5:7b';
+
+// Chat-completions endpoints have no response schema, so describe the shape in the prompt
+const JSON_FORMAT_HINT = `\n\n【输出格式】：只输出一个JSON对象，不要输出任何其他文字：{"transcription": "主题背景或内容摘要", "generatedQuotes": ["语录1", "语录2", "语录3"]}`;
+
+const buildHeaders = (config: OpenAIConfig): Record<string, string> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) {
+    headers['Authorization'] = `Bearer ${config.apiKey}`;
+  }
+  return headers;
+};
+
+const completionsUrl = (config: OpenAIConfig) => `${config.baseUrl.replace(/\/$/, '')}/chat/completions`;
+
+// Turns a failed HTTP response into a typed error; rate limits carry the server's Retry-After
+const toHttpError = (response: Response) => {
+  const message = `OpenAI-compatible request failed: ${response.status} ${response.statusText}`;
+  if (response.status === 429) {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return new RateLimitedError(message, Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined);
+  }
+  return toGenerationError(Object.assign(new Error(message), { status: response.status }));
+};
+
+// Chat-completions usage block; servers that don't report it yield no usage rather than zeros
+const toCallUsage = (config: OpenAIConfig, usage: any, startedAt: number): CallUsage | undefined =>
+  usage && typeof usage.prompt_tokens === 'number'
+    ? {
+        model: config.model,
+        inputTokens: usage.prompt_tokens,
+        outputTokens: usage.completion_tokens ?? 0,
+        latencyMs: Date.now() - startedAt
+      }
+    : undefined;
+
+// Topic only. Streams the analysis, reporting the accumulated text as it arrives, and returns the validated result
+export const analyzeWithOpenAI = async (
+  config: OpenAIConfig,
+  hasMedia: boolean,
+  options: AnalysisOptions,
+  onText?: (accumulatedText: string) => void,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  // Reported in the final chunk; kept for the error when that reply turns out unusable
+  let usage: CallUsage | undefined;
+  try {
+    if (hasMedia) {
+      throw new Error("当前模型（OpenAI兼容接口）不支持视频分析，请仅使用【自定义主题】进行生成。");
+    }
+
+    const startedAt = Date.now();
+
+    const response = await fetch(completionsUrl(config), {
+      method: 'POST',
+      headers: buildHeaders(config),
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: 'system', content: buildSystemPrompt(options.preset) },
+          { role: 'user', content: buildAnalysisPrompt(false, options) + JSON_FORMAT_HINT }
+        ],
+        response_format: { type: 'json_object' },
+        stream: true,
+        // Adds a final chunk carrying the token counts
+        stream_options: { include_usage: true }
+      })
+    });
+
+    if (!response.ok || !response.body) {
+      throw toHttpError(response);
+    }
+
+    let text = "";
+    for await (const data of readSSE(response.body)) {
+      if (data === '[DONE]') break;
+      const chunk = JSON.parse(data);
+      usage = toCallUsage(config, chunk?.usage, startedAt) ?? usage;
+      const choice = chunk?.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new SafetyBlockedError("OpenAI-compatible model stopped on its content filter");
+      }
+      const delta: string | undefined = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText?.(text);
+      }
+    }
+
+    if (!text) {
+      throw new MalformedOutputError(["OpenAI兼容模型没有返回内容"]);
+    }
+
+    const result = parseAnalysisResponse(text, false);
+    return usage ? { ...result, usage: [usage] } : result;
+
+  } catch (error) {
+    const typed = withUsage(toGenerationError(error), usage);
+    if (!(typed instanceof CancelledError)) {
+      console.error("OpenAI-compatible Analysis Error:", error);
+    }
+    throw typed;
+  }
+};
+
+// Short, so no streaming
+export const rewriteWithOpenAI = async (
+  config: OpenAIConfig,
+  text: string,
+  request: RewriteRequest,
+  options: AnalysisOptions,
+  signal?: AbortSignal
+): Promise<RewriteResult> => {
+  let usage: CallUsage | undefined;
+  try {
+    const startedAt = Date.now();
+    const response = await fetch(completionsUrl(config), {
+      method: 'POST',
+      headers: buildHeaders(config),
+      signal,
+      body: JSON.stringify({
+        model: config.model,
+        messages: [
+          { role: 'system', content: buildSystemPrompt(options.preset) },
+          { role: 'user', content: buildRewritePrompt(text, request) }
+        ],
+        response_format: { type: 'json_object' }
+      })
+    });
+
+    if (!response.ok) {
+      throw toHttpError(response);
+    }
+
+    const body = await response.json();
+    // Filtered or unparseable replies are billed too
+    usage = toCallUsage(config, body?.usage, startedAt);
+    const choice = body?.choices?.[0];
+    if (choice?.finish_reason === 'content_filter') {
+      throw new SafetyBlockedError("OpenAI-compatible model stopped on its content filter");
+    }
+    return { quote: parseRewriteResponse(choice?.message?.content || ''), usage };
+  } catch (error) {
+    throw withUsage(toGenerationError(error), usage);
+  }
+};
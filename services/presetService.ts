@@ -0,0 +1,124 @@
+import { StylePreset } from "../types";
+import { DEFAULT_PERSONA, DEFAULT_STYLE_SAMPLE, SYSTEM_PROMPT, composeSystemPrompt } from "../utils/constants";
+
+const STORAGE_KEY = 'dacheng.presets.v1';
+const SELECTED_KEY = 'dacheng.presets.selected.v1';
+
+export const BUILT_IN_PRESET: StylePreset = {
+  id: 'builtin-dacheng',
+  name: '大承活法',
+  instructions: DEFAULT_PERSONA,
+  samples: [DEFAULT_STYLE_SAMPLE],
+  defaultDuration: '15s',
+  builtIn: true
+};
+
+// The built-in preset keeps the original prompt verbatim
+export const buildSystemPrompt = (preset?: StylePreset): string =>
+  !preset || preset.builtIn ? SYSTEM_PROMPT : composeSystemPrompt(preset.instructions, preset.samples);
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+// The proxy server imports buildSystemPrompt from here and has no storage
+const hasStorage = typeof localStorage !== 'undefined';
+
+const readStorage = (): StylePreset[] => {
+  if (!hasStorage) return [];
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((p: any) => p && p.id && !p.builtIn) : [];
+  } catch (error) {
+    console.warn("Failed to read style presets from localStorage:", error);
+    return [];
+  }
+};
+
+const readSelected = (): string => {
+  if (!hasStorage) return BUILT_IN_PRESET.id;
+  try {
+    return localStorage.getItem(SELECTED_KEY) || BUILT_IN_PRESET.id;
+  } catch {
+    return BUILT_IN_PRESET.id;
+  }
+};
+
+// Cached snapshots so useSyncExternalStore sees stable references between writes
+let custom: StylePreset[] = readStorage();
+let snapshot: StylePreset[] = [BUILT_IN_PRESET, ...custom];
+let selectedId: string = readSelected();
+
+const notify = () => listeners.forEach(l => l());
+
+const commit = (next: StylePreset[]) => {
+  custom = next;
+  snapshot = [BUILT_IN_PRESET, ...next];
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to persist style presets:", error);
+  }
+  notify();
+};
+
+// Keep multiple tabs in sync
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) {
+      custom = readStorage();
+      snapshot = [BUILT_IN_PRESET, ...custom];
+      notify();
+    } else if (e.key === SELECTED_KEY) {
+      selectedId = readSelected();
+      notify();
+    }
+  });
+}
+
+export const subscribePresets = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getPresets = (): StylePreset[] => snapshot;
+
+// Falls back to the built-in preset if the selected one was deleted
+export const getSelectedPreset = (): StylePreset =>
+  snapshot.find(p => p.id === selectedId) ?? BUILT_IN_PRESET;
+
+export const selectPreset = (id: string) => {
+  selectedId = id;
+  try {
+    localStorage.setItem(SELECTED_KEY, id);
+  } catch (error) {
+    console.warn("Failed to persist selected preset:", error);
+  }
+  notify();
+};
+
+// Creates the preset when its id is new, otherwise replaces it
+export const savePreset = (preset: Omit<StylePreset, 'id' | 'builtIn'> & { id?: string }): StylePreset => {
+  const saved: StylePreset = {
+    ...preset,
+    id: preset.id ?? `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    name: preset.name.trim(),
+    samples: preset.samples.map(s => s.trim()).filter(Boolean)
+  };
+  if (saved.id === BUILT_IN_PRESET.id) {
+    throw new Error('内置风格不能修改，请复制后再编辑');
+  }
+  const exists = custom.some(p => p.id === saved.id);
+  commit(exists ? custom.map(p => p.id === saved.id ? saved : p) : [...custom, saved]);
+  return saved;
+};
+
+export const deletePreset = (id: string) => {
+  commit(custom.filter(p => p.id !== id));
+  if (selectedId === id) {
+    selectPreset(BUILT_IN_PRESET.id);
+  }
+};
@@ -0,0 +1,65 @@
+import { AnalysisOptions, AnalysisPhase, AnalysisProgress, AnalysisProgressHandler, PreparedMedia, TargetDuration } from "../types";
+import { extractPartialAnalysis } from "../utils/partialJson";
+
+// Rough characters per quote for each duration, used to estimate streaming progress
+const EXPECTED_QUOTE_CHARS: Record<TargetDuration, number> = {
+  '10s': 20,
+  '15s': 35,
+  '25s': 60,
+  '60s': 300,
+  '3m': 800,
+  '5m': 1500
+};
+
+// Percent ranges for each phase. Preparing and encoding only exist when a video is attached.
+const PREPARING_END = 10;
+const ENCODING_END = 15;
+const RECEIVING_START = 30;
+const RECEIVING_END = 99;
+
+export interface ProgressReporter {
+  preparing: (fraction: number) => void;
+  prepared: (media: PreparedMedia) => void;
+  encoding: (fraction: number) => void;
+  uploading: () => void;
+  thinking: () => void;
+  receive: (accumulatedText: string) => void;
+}
+
+// Translates provider events into AnalysisProgress updates for the UI
+export const createProgressReporter = (
+  hasVideo: boolean,
+  options: AnalysisOptions,
+  onProgress?: AnalysisProgressHandler
+): ProgressReporter => {
+  const expectedChars = EXPECTED_QUOTE_CHARS[options.targetDuration] * 3 + (hasVideo ? 400 : 80);
+  const clamp = (fraction: number) => Math.min(1, Math.max(0, fraction));
+  let media: AnalysisProgress['media'];
+  const emit = (progress: AnalysisProgress) => onProgress?.({ ...progress, media });
+
+  return {
+    preparing: (fraction) => emit({
+      phase: AnalysisPhase.PREPARING,
+      percent: Math.round(clamp(fraction) * PREPARING_END)
+    }),
+    prepared: ({ blob, ...info }) => {
+      media = info;
+      emit({ phase: AnalysisPhase.PREPARING, percent: PREPARING_END });
+    },
+    encoding: (fraction) => emit({
+      phase: AnalysisPhase.ENCODING,
+      percent: Math.round(PREPARING_END + clamp(fraction) * (ENCODING_END - PREPARING_END))
+    }),
+    uploading: () => emit({ phase: AnalysisPhase.UPLOADING, percent: hasVideo ? 18 : 10 }),
+    thinking: () => emit({ phase: AnalysisPhase.THINKING, percent: 25 }),
+    receive: (accumulatedText) => {
+      const partial = extractPartialAnalysis(accumulatedText);
+      const ratio = Math.min(1, accumulatedText.length / expectedChars);
+      emit({
+        phase: AnalysisPhase.RECEIVING,
+        percent: Math.round(RECEIVING_START + ratio * (RECEIVING_END - RECEIVING_START)),
+        partial
+      });
+    }
+  };
+};
@@ -0,0 +1,112 @@
+import { AnalysisOptions, ComplianceTerm, RewriteRequest } from "../types";
+import { formatSeconds } from "../utils/time";
+import { DEFAULT_READING_SPEED } from "../utils/constants";
+import { LENGTH_TOLERANCE, LengthVerdict, targetCharsFor } from "../utils/length";
+
+// Tone and structure per duration. The character count comes only from the 字数要求 line,
+// which follows the reading speed, so the two never disagree.
+export const DURATION_GUIDE: Record<AnalysisOptions['targetDuration'], string> = {
+  '10s': "极短（读完约10秒），适合短视频标题，一针见血。",
+  '15s': "短句（读完约15秒），适合金句卡片。",
+  '25s': "中长句（读完约25秒），适合口播文案，有情绪铺垫。",
+  '60s': "长独白（读完约60秒），可参考“房贷”参考文案的篇幅和节奏，深度剖析。",
+  '3m': "深度长文（读完约3分钟），层层递进，直击痛点，类似于一篇完整的社会观察小作文。",
+  '5m': "纪录片式超长独白（读完约5分钟），宏大叙事与微观痛苦结合，极度扎心，细节丰富。"
+};
+
+// Only the latest few quotes go into the prompt, clipped; the full history is checked locally afterwards
+const AVOID_PROMPT_QUOTES = 6;
+const AVOID_PROMPT_CHARS = 40;
+
+export const summarizeAvoidQuotes = (quotes: string[]): string => {
+  const recent = quotes.slice(-AVOID_PROMPT_QUOTES).map(q => {
+    const chars = Array.from(q.replace(/\s+/g, ' ').trim());
+    return `- ${chars.length > AVOID_PROMPT_CHARS ? chars.slice(0, AVOID_PROMPT_CHARS).join('') + '…' : chars.join('')}`;
+  });
+  const earlier = quotes.length - recent.length;
+  return recent.join('\n') + (earlier > 0 ? `\n（另有 ${earlier} 句更早的语录，同样不要重复其观点和句式）` : '');
+};
+
+// Each term with its safe alternative, e.g. 特码（可改为：真）
+export const formatAvoidTerms = (terms: ComplianceTerm[]): string =>
+  terms.map(t => t.suggestion ? `${t.term}（可改为：${t.suggestion}）` : t.term).join('、');
+
+// Builds the user prompt shared by every provider.
+// mediaTrimmed: the attached media already covers only options.videoRange.
+export const buildAnalysisPrompt = (hasVideo: boolean, options: AnalysisOptions, mediaTrimmed = false): string => {
+  let prompt = "";
+  const style = options.preset?.name || '大承活法';
+
+  if (hasVideo) {
+    prompt += `请分析这段视频（或从视频中提取的音轨）的音频/旁白内容。\n1. 提供视频内容的逐字稿或详细摘要。\n2. 基于视频内容，创作3句'${style}'风格的扎心语录。\n3. 在 segments 中给出带时间戳的分段逐字稿，每段一两句话，start/end 为该段在所给媒体中的起止秒数。\n4. 在 quoteSegments 中按语录顺序，列出每句语录主要参考了哪些 segments 的序号（从0开始）。`;
+    if (options.videoRange && !mediaTrimmed) {
+      const { start, end } = options.videoRange;
+      prompt += `\n\n【分析片段】：只分析视频中 ${formatSeconds(start)} 至 ${formatSeconds(end)} 之间的内容（约${Math.round(end - start)}秒），忽略其余部分。`;
+    }
+  } else {
+    // Text only mode
+    prompt += `请基于用户提供的主题，创作3句'${style}'风格的扎心语录。`;
+  }
+  
+  // Add Custom Instruction
+  if (options.customInstruction && options.customInstruction.trim() !== "") {
+    prompt += `\n\n【用户自定义主题】：请重点结合主题 "${options.customInstruction}" 进行创作。`;
+  } else if (!hasVideo) {
+    // If no video AND no custom instruction, we need a fallback, though UI prevents this.
+    prompt += `\n\n【创作主题】：请自由发挥，关于成年人的生活压力，房贷，车贷，工作。`;
+  }
+
+  prompt += `\n\n【时长要求】：${DURATION_GUIDE[options.targetDuration] || "适中长度"}`;
+  const readingSpeed = options.readingSpeed ?? DEFAULT_READING_SPEED;
+  prompt += `\n【字数要求】：按每秒约${readingSpeed}字的口播语速，每句约${targetCharsFor(options.targetDuration, readingSpeed)}字（上下浮动不超过${Math.round(LENGTH_TOLERANCE * 100)}%），生成后会逐句核对字数。`;
+
+  // Add Avoidance Logic
+  if (options.avoidQuotes && options.avoidQuotes.length > 0) {
+      prompt += `\n\n【禁止重复】：请务必【不要】生成与以下内容雷同的语录，必须尝试新的切入点、风格或修辞：\n${summarizeAvoidQuotes(options.avoidQuotes)}`;
+  }
+
+  if (options.avoidTerms && options.avoidTerms.length > 0) {
+    prompt += `\n\n【平台合规】：语录将发布到短视频平台，不要出现以下词语，需要时换成括号中的说法，语气和扎心程度保持不变：${formatAvoidTerms(options.avoidTerms)}`;
+  }
+
+  return prompt;
+};
+
+// Instruction for bringing a quote back to its target length
+export const buildLengthInstruction = (verdict: Exclude<LengthVerdict, 'ok'>, targetChars: number): string =>
+  verdict === 'short'
+    ? `扩写到约${targetChars}字：补充具体场景、细节和层层递进的情绪，不要注水或重复同一句话。`
+    : `精简到约${targetChars}字：保留最扎心的核心句和原有结构，删去铺垫与重复。`;
+
+// Instruction for swapping out restricted wording that slipped through. With `targetChars` the
+// rewrite is also asked to keep the length that enforceLength has just settled.
+export const buildComplianceInstruction = (terms: ComplianceTerm[], targetChars?: number): string => {
+  const instruction = `把以下平台限制的词语换成温和、允许发布的说法，其余内容、结构和语气尽量不变：${formatAvoidTerms(terms)}。`;
+  return targetChars ? `${instruction}改写后仍保持约${targetChars}字。` : instruction;
+};
+
+// What a set of quotes was written about, for rewrites of them: the topic and, for videos, the transcript
+export const buildRewriteContext = (options: AnalysisOptions, transcription?: string): string | undefined => {
+  const context = [
+    options.customInstruction?.trim() && `主题：${options.customInstruction.trim()}`,
+    transcription && `视频内容：${transcription}`
+  ].filter(Boolean).join('\n');
+  return context || undefined;
+};
+
+// Long transcripts are clipped; the gist is enough to stay on topic
+const REWRITE_CONTEXT_CHARS = 600;
+
+// Prompt for rewriting a single quote; every provider asks for {"quote": "..."}
+export const buildRewritePrompt = (text: string, request: RewriteRequest): string => {
+  let prompt = "请按要求改写下面这句语录，保持原有风格，除非要求另有说明，否则保留核心观点。";
+  if (request.context?.trim()) {
+    const chars = Array.from(request.context.trim());
+    const context = chars.length > REWRITE_CONTEXT_CHARS ? chars.slice(0, REWRITE_CONTEXT_CHARS).join('') + '…' : chars.join('');
+    prompt += `\n\n【创作背景】：\n${context}`;
+  }
+  prompt += `\n\n【改写要求】：${request.instruction}`;
+  prompt += `\n\n【原文】：\n${text}`;
+  prompt += `\n\n【输出格式】：只输出一个JSON对象，不要输出任何其他文字：{"quote": "改写后的语录"}`;
+  return prompt;
+};
@@ -0,0 +1,107 @@
+import { AnalysisResult, AnalysisOptions, AnalysisProgressHandler, QuoteGenerationProvider, RewriteRequest, RewriteResult } from "../types";
+import { createProgressReporter } from "./progressReporter";
+import { prepareMedia } from "./mediaService";
+import { CancelledError, MalformedOutputError, fromErrorPayload, toGenerationError } from "./errors";
+import { readSSE } from "../utils/sse";
+
+// The model behind the proxy server (server/index.ts), which holds the key and builds the prompt.
+// In development Vite forwards /api to the proxy; in production the proxy serves the app itself.
+const PROXY_BASE = '/api';
+
+// Non-2xx replies carry { error: GenerationErrorPayload }
+const readErrorResponse = async (response: Response) => {
+  const fallback = `Proxy request failed: ${response.status} ${response.statusText}`;
+  try {
+    const payload = await response.json();
+    return fromErrorPayload(payload?.error, fallback);
+  } catch {
+    return toGenerationError(Object.assign(new Error(fallback), { status: response.status }));
+  }
+};
+
+const generateViaProxy = async (
+  videoFile: File | null,
+  options: AnalysisOptions,
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  const progress = createProgressReporter(!!videoFile, options, onProgress);
+
+  try {
+    const form = new FormData();
+    form.append('options', JSON.stringify(options));
+
+    // The audio track is still extracted here, so the proxy receives as little as possible
+    if (videoFile) {
+      progress.preparing(0);
+      const media = await prepareMedia(videoFile, progress.preparing, options.videoRange, signal);
+      progress.prepared(media);
+      form.append('media', media.blob, videoFile.name);
+      form.append('mediaType', media.mimeType);
+      form.append('mediaTrimmed', media.trimmed ? '1' : '0');
+    }
+
+    progress.uploading();
+
+    const response = await fetch(`${PROXY_BASE}/generate`, { method: 'POST', body: form, signal });
+    if (!response.ok || !response.body) {
+      throw await readErrorResponse(response);
+    }
+
+    progress.thinking();
+
+    // Events: { text } while streaming, then { result } or { error }
+    let text = "";
+    for await (const data of readSSE(response.body)) {
+      const event = JSON.parse(data);
+      if (event.error) {
+        throw fromErrorPayload(event.error, "Proxy generation failed");
+      }
+      if (typeof event.text === 'string') {
+        text += event.text;
+        progress.receive(text);
+      }
+      if (event.result) {
+        return event.result as AnalysisResult;
+      }
+    }
+
+    throw new MalformedOutputError(["代理服务没有返回结果"]);
+
+  } catch (error) {
+    const typed = toGenerationError(error);
+    if (!(typed instanceof CancelledError)) {
+      console.error("Proxy Analysis Error:", error);
+    }
+    throw typed;
+  }
+};
+
+const rewriteViaProxy = async (text: string, request: RewriteRequest, options: AnalysisOptions, signal?: AbortSignal): Promise<RewriteResult> => {
+  try {
+    const response = await fetch(`${PROXY_BASE}/rewrite`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, request, options }),
+      signal
+    });
+    if (!response.ok) {
+      throw await readErrorResponse(response);
+    }
+    const { quote, usage } = await response.json();
+    if (typeof quote !== 'string' || !quote.trim()) {
+      throw new MalformedOutputError(['缺少改写后的 quote']);
+    }
+    return { quote, usage };
+  } catch (error) {
+    throw toGenerationError(error);
+  }
+};
+
+export const proxyProvider: QuoteGenerationProvider = {
+  id: 'proxy',
+  label: '模型代理服务',
+  supportsVideo: true, // Up to the server's model; a topic-only model answers video requests with an error
+  generate: generateViaProxy,
+  rewrite: rewriteViaProxy
+};
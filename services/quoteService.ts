@@ -0,0 +1,282 @@
+import { AnalysisResult, AnalysisOptions, AnalysisPhase, AnalysisProgressHandler, CallUsage, QuoteGenerationProvider, QuoteProviderId } from "../types";
+import { proxyProvider } from "./proxyService";
+import { mockProvider } from "./mockService";
+import { findDuplicates } from "./duplicateService";
+import { buildComplianceInstruction, buildLengthInstruction, buildRewriteContext } from "./promptBuilder";
+import { checkLength } from "../utils/length";
+import { checkCompliance, flaggedTerms } from "../utils/compliance";
+import { DEFAULT_READING_SPEED } from "../utils/constants";
+import { BudgetExceededError, CancelledError, GenerationError, MalformedOutputError } from "./errors";
+import { throwIfAborted } from "./cancellation";
+import { getBudgetStatus, recordUsage } from "./usageService";
+import { formatCost } from "../utils/usage";
+
+// Extra attempts when the model's output fails validation and can't be repaired locally
+const MAX_MALFORMED_RETRIES = 1;
+
+// Follow-up rounds for quotes outside the target length; models rarely land it on the first retry
+const MAX_LENGTH_ROUNDS = 2;
+
+// Real models are only reachable through the proxy server, which keeps the keys off the client
+const PROVIDERS: Record<QuoteProviderId, QuoteGenerationProvider> = {
+  proxy: proxyProvider,
+  mock: mockProvider
+};
+
+// gemini and openai were client-side providers; the proxy's PROXY_MODEL picks the model now
+const LEGACY_PROVIDERS = ['gemini', 'openai'];
+
+const resolveConfiguredProvider = (): QuoteGenerationProvider => {
+  const configured = process.env.QUOTE_PROVIDER || 'proxy';
+  const provider = PROVIDERS[configured as QuoteProviderId];
+  if (!provider) {
+    if (!LEGACY_PROVIDERS.includes(configured)) {
+      console.warn(`Unknown QUOTE_PROVIDER "${configured}", falling back to the proxy`);
+    }
+    return proxyProvider;
+  }
+  return provider;
+};
+
+let activeProvider: QuoteGenerationProvider = resolveConfiguredProvider();
+
+export const getQuoteProvider = (): QuoteGenerationProvider => activeProvider;
+
+// Swap the provider at runtime, e.g. to inject the mock in automated tests
+export const setQuoteProvider = (provider: QuoteGenerationProvider) => {
+  activeProvider = provider;
+};
+
+// Only a cap in block mode stops requests here; in warn mode the UI asks before sending
+const assertWithinBudget = () => {
+  const { spent, limit, mode, over } = getBudgetStatus();
+  if (over && mode === 'block') {
+    throw new BudgetExceededError(`Spent ${formatCost(spent)} of the ${formatCost(limit!)} daily budget`);
+  }
+};
+
+// Tokens a failed call was still billed for, e.g. a reply that didn't validate or was cancelled mid-stream
+const usageOfFailure = (error: unknown): CallUsage[] =>
+  error instanceof GenerationError ? error.usage || [] : [];
+
+// Usage of failed attempts is recorded as well, and a successful retry's result lists it too
+const generateValid = async (
+  videoFile: File | null,
+  options: AnalysisOptions,
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal,
+  retries = MAX_MALFORMED_RETRIES
+): Promise<AnalysisResult> => {
+  try {
+    const result = await activeProvider.generate(videoFile, options, onProgress, signal);
+    recordUsage('generate', result.usage || []);
+    return result;
+  } catch (error) {
+    const spent = usageOfFailure(error);
+    recordUsage('generate', spent);
+    if (retries > 0 && error instanceof MalformedOutputError && !signal?.aborted) {
+      console.warn(`Model output failed validation (${error.problems.join('; ')}), asking again`);
+      const retry = await generateValid(videoFile, options, onProgress, signal, retries - 1);
+      return { ...retry, usage: [...spent, ...(retry.usage || [])] };
+    }
+    throw error;
+  }
+};
+
+// Checks a quote against the target length and reading speed in `options`
+const lengthMeasure = (options: AnalysisOptions) => {
+  const readingSpeed = options.readingSpeed ?? DEFAULT_READING_SPEED;
+  return (text: string) => checkLength(text, options.targetDuration, readingSpeed);
+};
+
+// Rewrites quotes that are too short or too long for the target duration, in parallel.
+// A rewrite only replaces the original when it gets closer to the target; failures keep the original.
+// Each rewrite's usage is appended to `usage`.
+const enforceLength = async (
+  quotes: string[],
+  options: AnalysisOptions,
+  context: string | undefined,
+  usage: CallUsage[],
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const measure = lengthMeasure(options);
+  const fixed = [...quotes];
+
+  for (let round = 0; round < MAX_LENGTH_ROUNDS; round++) {
+    const off = fixed.map((text, i) => ({ i, check: measure(text) })).filter(({ check }) => check.verdict !== 'ok');
+    if (!off.length) break;
+    throwIfAborted(signal);
+    onProgress?.({ phase: AnalysisPhase.ADJUSTING, percent: 99 });
+
+    await Promise.all(off.map(async ({ i, check }) => {
+      try {
+        const { quote: rewritten, usage: call } = await activeProvider.rewrite(fixed[i], {
+          instruction: buildLengthInstruction(check.verdict as 'short' | 'long', check.target),
+          targetChars: check.target,
+          context
+        }, options, signal);
+        if (call) {
+          usage.push(call);
+          recordUsage('rewrite', [call]);
+        }
+        if (Math.abs(measure(rewritten).chars - check.target) < Math.abs(check.chars - check.target)) {
+          fixed[i] = rewritten;
+        }
+      } catch (error) {
+        const spent = usageOfFailure(error);
+        usage.push(...spent);
+        recordUsage('rewrite', spent);
+        if (error instanceof CancelledError) throw error;
+        console.warn(`Length adjustment failed for quote ${i + 1}:`, error);
+      }
+    }));
+  }
+  return fixed;
+};
+
+// One rewrite for quotes that still contain terms from options.avoidTerms, kept only when it has fewer flags
+// and, with enforceLength, doesn't undo the length fix. Each rewrite's usage is appended to `usage`.
+const enforceCompliance = async (
+  quotes: string[],
+  options: AnalysisOptions,
+  context: string | undefined,
+  usage: CallUsage[],
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const terms = options.avoidTerms || [];
+  const flagged = quotes.map((text, i) => ({ i, flags: checkCompliance(text, terms) })).filter(({ flags }) => flags.length);
+  if (!flagged.length) return quotes;
+  throwIfAborted(signal);
+  onProgress?.({ phase: AnalysisPhase.ADJUSTING, percent: 99 });
+
+  const measure = lengthMeasure(options);
+  // Within tolerance, or at least no further from the target than the quote it replaces
+  const keepsLength = (rewritten: string, original: string) => {
+    if (!options.enforceLength) return true;
+    const after = measure(rewritten);
+    return after.verdict === 'ok' || Math.abs(after.chars - after.target) <= Math.abs(measure(original).chars - after.target);
+  };
+
+  const fixed = [...quotes];
+  await Promise.all(flagged.map(async ({ i, flags }) => {
+    try {
+      const { quote: rewritten, usage: call } = await activeProvider.rewrite(fixed[i], {
+        instruction: buildComplianceInstruction(flaggedTerms(flags), options.enforceLength ? measure(fixed[i]).target : undefined),
+        context
+      }, options, signal);
+      if (call) {
+        usage.push(call);
+        recordUsage('rewrite', [call]);
+      }
+      if (checkCompliance(rewritten, terms).length < flags.length && keepsLength(rewritten, fixed[i])) {
+        fixed[i] = rewritten;
+      }
+    } catch (error) {
+      const spent = usageOfFailure(error);
+      usage.push(...spent);
+      recordUsage('rewrite', spent);
+      if (error instanceof CancelledError) throw error;
+      console.warn(`Compliance rewrite failed for quote ${i + 1}:`, error);
+    }
+  }));
+  return fixed;
+};
+
+// Generates quotes, then checks them locally against the session history and the library.
+// With regenerateDuplicates, flagged quotes are swapped for fresh ones from one more round.
+const generateDistinct = async (
+  videoFile: File | null,
+  options: AnalysisOptions,
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  const history = options.avoidQuotes || [];
+  const result = await generateValid(videoFile, options, onProgress, signal);
+  const duplicates = findDuplicates(result.generatedQuotes, history);
+
+  if (!options.regenerateDuplicates || !duplicates.some(Boolean)) {
+    return { ...result, duplicates };
+  }
+
+  const retry = await generateValid(videoFile, {
+    ...options,
+    avoidQuotes: [...history, ...result.generatedQuotes]
+  }, onProgress, signal);
+
+  // Replacements must be new relative to the history and to the quotes being kept
+  const kept = result.generatedQuotes.filter((_, i) => !duplicates[i]);
+  const retryDuplicates = findDuplicates(retry.generatedQuotes, [...history, ...kept]);
+  const replacements = retry.generatedQuotes.filter((_, i) => !retryDuplicates[i]);
+
+  const generatedQuotes = [...result.generatedQuotes];
+  const quoteSegments = result.quoteSegments ? [...result.quoteSegments] : undefined;
+  duplicates.forEach((duplicate, i) => {
+    if (!duplicate || !replacements.length) return;
+    generatedQuotes[i] = replacements.shift()!;
+    duplicates[i] = null;
+    // The retry's segment indices refer to its own transcript, so they don't carry over
+    if (quoteSegments) quoteSegments[i] = [];
+  });
+
+  const usage = [...(result.usage || []), ...(retry.usage || [])];
+  return { ...result, generatedQuotes, quoteSegments, duplicates, usage };
+};
+
+// Generates quotes, checks them for near-duplicates and, with enforceLength, fits them to the target length.
+// With avoidTerms, quotes that still use restricted wording are rewritten last. The duplicate check
+// runs again on the rewritten quotes, so result.duplicates matches the final text.
+// Aborting `signal` stops whichever step is running and rejects with CancelledError.
+// result.usage lists every model call made for it, including retries, length and wording fixes.
+export const analyzeVideoAndGenerateQuotes = async (
+  videoFile: File | null,
+  options: AnalysisOptions,
+  onProgress?: AnalysisProgressHandler,
+  signal?: AbortSignal
+): Promise<AnalysisResult> => {
+  assertWithinBudget();
+  const result = await generateDistinct(videoFile, options, onProgress, signal);
+  if (!options.enforceLength && !options.avoidTerms?.length) {
+    return result;
+  }
+  const usage = [...(result.usage || [])];
+  const context = buildRewriteContext(options, videoFile ? result.transcription : undefined);
+  let generatedQuotes = result.generatedQuotes;
+  if (options.enforceLength) {
+    generatedQuotes = await enforceLength(generatedQuotes, options, context, usage, onProgress, signal);
+  }
+  if (options.avoidTerms?.length) {
+    generatedQuotes = await enforceCompliance(generatedQuotes, options, context, usage, onProgress, signal);
+  }
+  // Rewrites can drift towards (or away from) a known quote, so flag the text that is actually shown
+  const duplicates = findDuplicates(generatedQuotes, options.avoidQuotes || []);
+  return { ...result, generatedQuotes, duplicates, usage };
+};
+
+// Quick refinements offered on every generated quote
+export const REFINEMENTS: { label: string; instruction: string }[] = [
+  { label: '更短', instruction: '改得更短更精炼，大约原文一半的字数，只留最扎心的部分。' },
+  { label: '更狠', instruction: '语气更狠、更扎心，把残酷的真相说得更直白，不留情面。' },
+  { label: '更幽默', instruction: '加入自嘲和黑色幽默，让人笑着笑着就沉默了，但不要削弱扎心程度。' },
+  { label: '换个角度', instruction: '围绕同一主题换一个全新的切入角度或比喻重写，不要沿用原文的句式和观点顺序。' }
+];
+
+// One follow-up call producing a new version of a single quote, keeping the original video/topic context
+export const refineQuote = async (
+  text: string,
+  instruction: string,
+  options: AnalysisOptions,
+  context?: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  assertWithinBudget();
+  try {
+    const { quote, usage } = await activeProvider.rewrite(text, { instruction, context }, options, signal);
+    if (usage) recordUsage('rewrite', [usage]);
+    return quote;
+  } catch (error) {
+    recordUsage('rewrite', usageOfFailure(error));
+    throw error;
+  }
+};
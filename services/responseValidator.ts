@@ -0,0 +1,97 @@
+import { AnalysisResult, TranscriptSegment } from "../types";
+import { MalformedOutputError } from "./errors";
+
+export const EXPECTED_QUOTE_COUNT = 3;
+
+// Pulls the JSON object out of model text: strips markdown fences and any chatter around the braces
+const extractJson = (text: string): unknown => {
+  const unfenced = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(unfenced);
+  } catch (error) {
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+    if (start === -1 || end <= start) {
+      throw new MalformedOutputError(['不是有效的 JSON'], error);
+    }
+    try {
+      return JSON.parse(unfenced.slice(start, end + 1));
+    } catch (inner) {
+      throw new MalformedOutputError(['不是有效的 JSON'], inner);
+    }
+  }
+};
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// Checks the decoded response and repairs what can be repaired without another call:
+// trims quotes, drops empty ones, keeps the first EXPECTED_QUOTE_COUNT, discards malformed
+// segments and out-of-range segment references. Throws MalformedOutputError for the rest.
+export const validateAnalysisResult = (raw: unknown, hasVideo: boolean): AnalysisResult => {
+  const problems: string[] = [];
+  const data = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+
+  const transcription = typeof data.transcription === 'string' ? data.transcription.trim() : '';
+  if (!transcription && hasVideo) {
+    problems.push('缺少 transcription');
+  }
+
+  const rawQuotes = Array.isArray(data.generatedQuotes) ? data.generatedQuotes : null;
+  if (!rawQuotes) {
+    problems.push('缺少 generatedQuotes 数组');
+  }
+  const kept = (rawQuotes || [])
+    .map((quote, index) => ({ index, text: typeof quote === 'string' ? quote.trim() : '' }))
+    .filter(q => q.text)
+    .slice(0, EXPECTED_QUOTE_COUNT);
+  if (rawQuotes && kept.length < EXPECTED_QUOTE_COUNT) {
+    problems.push(`需要 ${EXPECTED_QUOTE_COUNT} 句非空语录，只收到 ${kept.length} 句`);
+  }
+
+  if (problems.length) {
+    throw new MalformedOutputError(problems);
+  }
+
+  const result: AnalysisResult = {
+    transcription,
+    generatedQuotes: kept.map(q => q.text)
+  };
+
+  if (hasVideo && Array.isArray(data.segments)) {
+    // Keep the original indices so quoteSegments stay meaningful, then renumber
+    const renumber = new Map<number, number>();
+    const segments: TranscriptSegment[] = [];
+    data.segments.forEach((seg: any, i) => {
+      if (seg && isFiniteNumber(seg.start) && isFiniteNumber(seg.end) && seg.end >= seg.start && typeof seg.text === 'string') {
+        renumber.set(i, segments.length);
+        segments.push({ start: seg.start, end: seg.end, text: seg.text });
+      }
+    });
+    result.segments = segments;
+
+    if (Array.isArray(data.quoteSegments)) {
+      const refs = data.quoteSegments as unknown[];
+      result.quoteSegments = kept.map(q => {
+        const list = refs[q.index];
+        return Array.isArray(list)
+          ? list.filter(isFiniteNumber).map(i => renumber.get(i)).filter((i): i is number => i !== undefined)
+          : [];
+      });
+    }
+  }
+
+  return result;
+};
+
+export const parseAnalysisResponse = (text: string, hasVideo: boolean): AnalysisResult =>
+  validateAnalysisResult(extractJson(text), hasVideo);
+
+// The single-quote reply of a rewrite call: {"quote": "..."}
+export const parseRewriteResponse = (text: string): string => {
+  const data = extractJson(text) as Record<string, unknown> | null;
+  const quote = data && typeof data.quote === 'string' ? data.quote.trim() : '';
+  if (!quote) {
+    throw new MalformedOutputError(['缺少改写后的 quote']);
+  }
+  return quote;
+};
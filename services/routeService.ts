@@ -0,0 +1,97 @@
+import { QuoteSource, ViewState } from "../types";
+
+// Hash routes, so the app keeps working from any static host:
+//   #/                      library          ?category=<tag>&q=<search>
+//   #/create                video analyzer
+//   #/batch                 batch queue
+//   #/collection            collection
+//   #/quote/<id>            library, opened at that quote
+export interface Route {
+  view: ViewState;
+  category?: string;
+  query?: string;
+  quoteId?: number;
+}
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const VIEW_PATHS: Record<ViewState, string> = {
+  [ViewState.LIBRARY]: '/',
+  [ViewState.CREATE]: '/create',
+  [ViewState.BATCH]: '/batch',
+  [ViewState.COLLECTION]: '/collection'
+};
+
+export const parseRoute = (hash: string): Route => {
+  const [path, search = ''] = hash.replace(/^#/, '').split('?');
+  const params = new URLSearchParams(search);
+  const category = params.get('category') || undefined;
+  const query = params.get('q') || undefined;
+
+  const quote = /^\/quote\/(\d+)\/?$/.exec(path);
+  if (quote) {
+    return { view: ViewState.LIBRARY, quoteId: Number(quote[1]), category, query };
+  }
+  const view = (Object.keys(VIEW_PATHS) as ViewState[]).find(v => VIEW_PATHS[v] === (path.replace(/\/$/, '') || '/'));
+  // Unknown paths fall back to the library rather than a blank page
+  return { view: view ?? ViewState.LIBRARY, category, query };
+};
+
+export const formatRoute = (route: Route): string => {
+  const path = route.quoteId !== undefined ? `/quote/${route.quoteId}` : VIEW_PATHS[route.view];
+  const params = new URLSearchParams();
+  if (route.category) params.set('category', route.category);
+  if (route.query) params.set('q', route.query);
+  const search = params.toString();
+  return `#${path}${search ? `?${search}` : ''}`;
+};
+
+// Absolute link to a route, for sharing
+export const buildRouteUrl = (route: Route): string =>
+  `${window.location.origin}${window.location.pathname}${formatRoute(route)}`;
+
+// Link that opens a quote where it lives. Only library quotes have one: generated quotes, saved or
+// not, exist in this browser's storage alone, so a link to them would open nothing anywhere else.
+export const buildQuoteUrl = (source: QuoteSource): string | undefined =>
+  source.kind === 'library' ? buildRouteUrl({ view: ViewState.LIBRARY, quoteId: source.quoteId }) : undefined;
+
+// Cached by hash so useSyncExternalStore sees a stable reference until the URL changes
+let snapshot: { hash: string; route: Route } = { hash: '', route: { view: ViewState.LIBRARY } };
+
+const readRoute = (): Route => {
+  const hash = typeof window !== 'undefined' ? window.location.hash : '';
+  if (hash !== snapshot.hash) {
+    snapshot = { hash, route: parseRoute(hash) };
+  }
+  return snapshot.route;
+};
+
+const notify = () => listeners.forEach(l => l());
+
+// Back/forward and hand-edited URLs
+if (typeof window !== 'undefined') {
+  window.addEventListener('popstate', notify);
+  window.addEventListener('hashchange', notify);
+}
+
+export const subscribeRoute = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getRoute = (): Route => readRoute();
+
+// replace: update the URL without adding a history entry, e.g. while typing a search
+export const navigate = (route: Route, { replace = false }: { replace?: boolean } = {}) => {
+  const hash = formatRoute(route);
+  if (hash === window.location.hash) return;
+  if (replace) {
+    window.history.replaceState(null, '', hash);
+  } else {
+    window.history.pushState(null, '', hash);
+  }
+  notify();
+};
@@ -0,0 +1,123 @@
+import { CallUsage } from "../types";
+import { costOf } from "../utils/usage";
+import { todayKey } from "../utils/rotation";
+
+const STORAGE_KEY = 'dacheng.usage.v1';
+const BUDGET_KEY = 'dacheng.usage.budget.v1';
+
+// Older entries are dropped on the next write
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface UsageEntry extends CallUsage {
+  at: number;
+  kind: 'generate' | 'rewrite';
+  cost: number; // USD, priced when recorded
+}
+
+export type BudgetMode = 'warn' | 'block';
+
+export interface BudgetSettings {
+  dailyLimit: number | null; // USD; null means no cap
+  mode: BudgetMode;
+}
+
+const DEFAULT_BUDGET: BudgetSettings = { dailyLimit: null, mode: 'warn' };
+
+// Everything recorded after this page load counts as the current session
+export const SESSION_STARTED_AT = Date.now();
+
+type Listener = () => void;
+const listeners = new Set<Listener>();
+
+const readStorage = (): UsageEntry[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((e: any) => e && typeof e.at === 'number') : [];
+  } catch (error) {
+    console.warn("Failed to read usage log from localStorage:", error);
+    return [];
+  }
+};
+
+const readBudget = (): BudgetSettings => {
+  try {
+    const raw = localStorage.getItem(BUDGET_KEY);
+    return raw ? { ...DEFAULT_BUDGET, ...JSON.parse(raw) } : DEFAULT_BUDGET;
+  } catch {
+    return DEFAULT_BUDGET;
+  }
+};
+
+// Cached snapshots so useSyncExternalStore sees stable references between writes
+let snapshot: UsageEntry[] = readStorage();
+let budget: BudgetSettings = readBudget();
+
+const notify = () => listeners.forEach(l => l());
+
+const commit = (next: UsageEntry[]) => {
+  snapshot = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to persist usage log:", error);
+  }
+  notify();
+};
+
+// Keep multiple tabs in sync, so the daily total covers all of them
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (e) => {
+    if (e.key === STORAGE_KEY) {
+      snapshot = readStorage();
+      notify();
+    } else if (e.key === BUDGET_KEY) {
+      budget = readBudget();
+      notify();
+    }
+  });
+}
+
+export const subscribeUsage = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUsageLog = (): UsageEntry[] => snapshot;
+
+export const getBudget = (): BudgetSettings => budget;
+
+export const recordUsage = (kind: UsageEntry['kind'], calls: CallUsage[]) => {
+  if (!calls.length) return;
+  const now = Date.now();
+  const entries = calls.map(call => ({ ...call, at: now, kind, cost: costOf(call) }));
+  commit([...snapshot.filter(e => now - e.at < RETENTION_MS), ...entries]);
+};
+
+export const clearUsageLog = () => {
+  commit([]);
+};
+
+export const setBudget = (next: BudgetSettings) => {
+  budget = next;
+  try {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(next));
+  } catch (error) {
+    console.warn("Failed to persist usage budget:", error);
+  }
+  notify();
+};
+
+export const isToday = (entry: UsageEntry, day = todayKey()) => todayKey(new Date(entry.at)) === day;
+
+export const spentToday = (): number =>
+  snapshot.filter(e => isToday(e)).reduce((sum, e) => sum + e.cost, 0);
+
+// Checked before each request: 'over' once today's spend has reached the cap
+export const getBudgetStatus = (): { spent: number; limit: number | null; mode: BudgetMode; over: boolean } => {
+  const spent = spentToday();
+  return { spent, limit: budget.dailyLimit, mode: budget.mode, over: budget.dailyLimit !== null && spent >= budget.dailyLimit };
+};
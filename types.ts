@@ -1,28 +1,167 @@
+import type { Tag, ALL_TAG } from './utils/tags';
+
 export enum ViewState {
   LIBRARY = 'LIBRARY',
-  CREATE = 'CREATE'
+  CREATE = 'CREATE',
+  BATCH = 'BATCH',
+  COLLECTION = 'COLLECTION'
 }
 
-export type Category = 
-  | '全部'
-  | '房贷·生存'
-  | '职场·内卷'
-  | '婚姻·情感'
-  | '人性·现实'
-  | '孤独·崩溃'
-  | '金钱·阶层'
-  | '摆烂·躺平';
+// Tags come from the registry in utils/tags.ts; a Category is a tag or the "全部" filter
+export type Category = typeof ALL_TAG | Tag;
 
 export interface Quote {
   id: number;
   text: string;
-  category: Category;
+  tags: Tag[]; // First tag is the primary one; empty for generated quotes
   author?: string; // Defaults to '大承活法'
 }
 
+export type TargetDuration = '10s' | '15s' | '25s' | '60s' | '3m' | '5m';
+
+// One timed line of the video's transcript, times in seconds from the start of the file
+export interface TranscriptSegment {
+  start: number;
+  end: number;
+  text: string;
+}
+
 export interface AnalysisResult {
   transcription: string;
   generatedQuotes: string[];
+  segments?: TranscriptSegment[]; // Only when a video was analyzed
+  quoteSegments?: number[][]; // For each quote, indices into segments it drew from
+  duplicates?: (DuplicateMatch | null)[]; // For each quote, the earlier text it nearly repeats
+  usage?: CallUsage[]; // Every model call that went into this result, retries and length fixes included
+}
+
+// Tokens and time spent on one model call
+export interface CallUsage {
+  model: string; // Prices are looked up by this id, see utils/usage.ts
+  inputTokens: number;
+  outputTokens: number; // Including thinking tokens, which are billed as output
+  latencyMs: number;
+}
+
+// A generated quote that reads too much like one already seen
+export interface DuplicateMatch {
+  origin: 'history' | 'library';
+  text: string;
+  quoteId?: number; // Library entry, when origin is 'library'
+  score: number; // 0..1 n-gram similarity
+}
+
+// A span of the uploaded video, in seconds
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+// A writing voice: persona instructions plus reference samples the model should imitate
+export interface StylePreset {
+  id: string;
+  name: string;
+  instructions: string;
+  samples: string[];
+  defaultDuration: TargetDuration;
+  builtIn?: boolean; // The original 大承活法 prompt; not editable
+}
+
+// Platforms with their own moderation word lists
+export type CompliancePlatform = 'douyin' | 'xiaohongshu';
+
+export type ComplianceCategory = 'profanity' | 'advertising' | 'sensitive';
+
+// A word a platform restricts, and what to write instead where there is a safe alternative
+export interface ComplianceTerm {
+  term: string;
+  category: ComplianceCategory;
+  suggestion?: string;
+}
+
+export interface AnalysisOptions {
+  preset?: StylePreset; // Defaults to the built-in 大承活法 voice
+  customInstruction?: string;
+  targetDuration: TargetDuration;
+  avoidQuotes?: string[]; // Quotes from this session to avoid repeating; also checked locally after generation
+  regenerateDuplicates?: boolean; // Ask again once for quotes that turn out to be near-duplicates
+  readingSpeed?: number; // Characters per second used to size quotes; defaults to DEFAULT_READING_SPEED
+  enforceLength?: boolean; // Rewrite quotes that come back too far from the target length
+  videoRange?: TimeRange; // Only analyze this part of the video; omitted means the whole file
+  avoidTerms?: ComplianceTerm[]; // Restricted wording to keep out; quotes that still contain it get one rewrite
+}
+
+// How a video is sent to the model
+export enum MediaStrategy {
+  ORIGINAL = 'ORIGINAL', // Small enough to inline as-is
+  AUDIO = 'AUDIO',       // Audio track extracted and downsampled in the browser
+  UPLOAD = 'UPLOAD',     // Sent through the provider's file-upload API
+  CLIP = 'CLIP'          // Range re-recorded in the browser from a file too large to send
+}
+
+export interface PreparedMedia {
+  blob: Blob;
+  mimeType: string;
+  strategy: MediaStrategy;
+  originalBytes: number;
+  bytes: number; // Size of the payload actually sent
+  trimmed: boolean; // Payload already covers only the requested TimeRange
+}
+
+// Media as the proxy server receives it: already reduced in the browser by prepareMedia
+export interface MediaPayload {
+  blob: Blob;
+  mimeType: string;
+  fileName: string;
+  trimmed: boolean;
+}
+
+// Real stages of a generation request, reported while it runs
+export enum AnalysisPhase {
+  PREPARING = 'PREPARING', // Extracting/downsampling audio from the video
+  ENCODING = 'ENCODING',   // Reading the payload into memory
+  UPLOADING = 'UPLOADING', // Request sent, payload in flight
+  THINKING = 'THINKING',   // Model accepted the request, no tokens yet
+  RECEIVING = 'RECEIVING', // Tokens are streaming back
+  ADJUSTING = 'ADJUSTING'  // Follow-up calls rewriting quotes to fit the target length or the platform's word lists
+}
+
+export interface AnalysisProgress {
+  phase: AnalysisPhase;
+  percent: number; // 0-100
+  partial?: Partial<AnalysisResult>; // Fields decoded so far while RECEIVING
+  media?: Omit<PreparedMedia, 'blob'>; // Known once PREPARING finishes
+}
+
+export type AnalysisProgressHandler = (progress: AnalysisProgress) => void;
+
+export type QuoteProviderId = 'proxy' | 'mock';
+
+// A backend capable of turning a video and/or topic into quotes.
+// Both calls stop with a CancelledError once `signal` fires.
+export interface QuoteGenerationProvider {
+  id: QuoteProviderId;
+  label: string; // Shown in the UI
+  supportsVideo: boolean;
+  generate: (
+    videoFile: File | null,
+    options: AnalysisOptions,
+    onProgress?: AnalysisProgressHandler,
+    signal?: AbortSignal
+  ) => Promise<AnalysisResult>;
+  // Rewrites one quote as instructed, text only
+  rewrite: (text: string, request: RewriteRequest, options: AnalysisOptions, signal?: AbortSignal) => Promise<RewriteResult>;
+}
+
+export interface RewriteResult {
+  quote: string;
+  usage?: CallUsage;
+}
+
+export interface RewriteRequest {
+  instruction: string;
+  targetChars?: number; // Set when the rewrite is about length
+  context?: string; // What the quote was written about: video summary and/or topic
 }
 
 export enum AnalysisStatus {
@@ -31,4 +170,29 @@ export enum AnalysisStatus {
   ANALYZING = 'ANALYZING',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR'
-}
\ No newline at end of file
+}
+
+// One video clip or topic in the batch queue
+export interface BatchItem {
+  id: string;
+  file?: File;     // A clip; analyzed from the start, up to MAX_SEGMENT_SECONDS
+  topic?: string;  // A topic, or extra instructions for a clip
+  targetDuration: TargetDuration;
+  status: AnalysisStatus; // IDLE while queued
+  phase?: AnalysisPhase;
+  result?: AnalysisResult;
+  error?: string;
+}
+
+// Where a saved quote came from
+export type QuoteSource =
+  | { kind: 'library'; quoteId: number }
+  | { kind: 'generated'; fileName?: string; topic?: string; targetDuration: TargetDuration; presetName?: string };
+
+export interface CollectedQuote {
+  id: string;
+  text: string;
+  tags: Tag[];
+  source: QuoteSource;
+  savedAt: number; // epoch ms
+}
@@ -0,0 +1,63 @@
+import { BatchItem } from '../types';
+import { LibraryFormat, buildCSV } from './libraryFormats';
+
+export interface BatchExportMeta {
+  presetName?: string;
+  exportedAt: Date;
+}
+
+// Finished items only; failed and pending ones have nothing to export
+const finished = (items: BatchItem[]) =>
+  items.filter((item): item is BatchItem & { result: NonNullable<BatchItem['result']> } => !!item.result);
+
+const sourceLabel = (item: BatchItem) =>
+  [item.file?.name, item.topic?.trim()].filter(Boolean).join(' · ');
+
+// --- JSON: the full results, grouped by item ---
+
+const toJSON = (items: BatchItem[], meta: BatchExportMeta) =>
+  JSON.stringify({
+    exportedAt: meta.exportedAt.toISOString(),
+    preset: meta.presetName,
+    items: finished(items).map(item => ({
+      fileName: item.file?.name,
+      topic: item.topic?.trim() || undefined,
+      targetDuration: item.targetDuration,
+      transcription: item.result.transcription,
+      quotes: item.result.generatedQuotes
+    }))
+  }, null, 2) + '\n';
+
+// --- CSV: one row per quote, for spreadsheets and schedulers ---
+
+const CSV_HEADER = ['item', 'source', 'targetDuration', 'index', 'text'];
+
+const toCSV = (items: BatchItem[]) => {
+  const rows = finished(items).flatMap((item, i) =>
+    item.result.generatedQuotes.map((text, j) => [String(i + 1), sourceLabel(item), item.targetDuration, String(j + 1), text])
+  );
+  return buildCSV(CSV_HEADER, rows);
+};
+
+// --- Markdown: one section per item, summary as a quote block, quotes numbered ---
+
+const toMarkdown = (items: BatchItem[], meta: BatchExportMeta) => {
+  const lines: string[] = ['# 大承活法 · 批量二创', ''];
+  lines.push(`> 导出于 ${meta.exportedAt.toLocaleString()}${meta.presetName ? ` · 风格：${meta.presetName}` : ''}`, '');
+  finished(items).forEach((item, i) => {
+    lines.push(`## ${i + 1}. ${sourceLabel(item)} (${item.targetDuration})`, '');
+    if (item.result.transcription) {
+      lines.push(...item.result.transcription.trim().split(/\r?\n/).map(l => `> ${l}`), '');
+    }
+    item.result.generatedQuotes.forEach((text, j) => {
+      lines.push(`### ${j + 1}`, '', text, '');
+    });
+  });
+  return lines.join('\n');
+};
+
+export const serializeBatch = (items: BatchItem[], format: LibraryFormat, meta: BatchExportMeta): string => {
+  if (format === 'json') return toJSON(items, meta);
+  if (format === 'csv') return toCSV(items);
+  return toMarkdown(items, meta);
+};
@@ -0,0 +1,179 @@
+import { ComplianceCategory, CompliancePlatform, ComplianceTerm } from '../types';
+import { TextRange } from './search';
+
+export const PLATFORM_LABELS: Record<CompliancePlatform, string> = {
+  douyin: '抖音',
+  xiaohongshu: '小红书'
+};
+
+export const CATEGORY_LABELS: Record<ComplianceCategory, string> = {
+  profanity: '粗口',
+  advertising: '广告极限词',
+  sensitive: '敏感话题'
+};
+
+const term = (category: ComplianceCategory) => (word: string, suggestion?: string): ComplianceTerm =>
+  suggestion ? { term: word, category, suggestion } : { term: word, category };
+
+const profanity = term('profanity');
+const advertising = term('advertising');
+const sensitive = term('sensitive');
+
+// Words both platforms push down or reject; the persona's "我特码…" voice trips the first group
+const COMMON_TERMS: ComplianceTerm[] = [
+  profanity('特码', '真'),
+  profanity('特么', '真'),
+  profanity('他妈的', '真是'),
+  profanity('他妈', '真'),
+  profanity('妈的', '唉'),
+  profanity('卧槽', '天哪'),
+  profanity('我靠', '天哪'),
+  profanity('尼玛', '简直'),
+  profanity('傻逼', '糊涂人'),
+  profanity('操蛋', '糟心'),
+  profanity('屌丝', '普通人'),
+  profanity('狗日的', '该死的'),
+  profanity('滚蛋', '走开'),
+  // Absolute claims banned by the Advertising Law
+  advertising('最好', '很好'),
+  advertising('最佳', '优秀'),
+  advertising('最强', '很强'),
+  advertising('第一', '领先'),
+  advertising('唯一', '少有'),
+  advertising('顶级', '高品质'),
+  advertising('国家级', '专业级'),
+  advertising('史上最', '很'),
+  advertising('全网最', '很'),
+  advertising('绝对', '真的'),
+  advertising('百分之百', '很大程度上'),
+  advertising('100%', '很大程度上'),
+  advertising('万能', '多用途'),
+  advertising('永久', '长期'),
+  sensitive('自杀', '想不开'),
+  sensitive('轻生', '想不开'),
+  sensitive('跳楼', '想不开'),
+  sensitive('赌博', '碰运气'),
+  sensitive('网贷', '借钱'),
+  sensitive('资本家', '老板'),
+  sensitive('阶层固化', '上升越来越难'),
+  sensitive('仇富', '羡慕'),
+  sensitive('割韭菜', '交学费')
+];
+
+// Douyin also limits talk of money and get-rich promises, and any contact details that divert traffic
+const DOUYIN_TERMS: ComplianceTerm[] = [
+  sensitive('赚钱', '搞米'),
+  sensitive('暴富', '翻身'),
+  sensitive('稳赚', '有机会'),
+  sensitive('躺赚', '轻松些'),
+  sensitive('彩票'),
+  sensitive('炒股', '理财'),
+  advertising('微信', 'V'),
+  advertising('加我'),
+  advertising('私信我'),
+  advertising('淘宝'),
+  advertising('小红书')
+];
+
+// Xiaohongshu is strict about advertising wording and links to other platforms
+const XIAOHONGSHU_TERMS: ComplianceTerm[] = [
+  advertising('首选', '常选'),
+  advertising('王牌', '拿手'),
+  advertising('必买', '值得一试'),
+  advertising('闭眼入', '可以考虑'),
+  advertising('根治', '缓解'),
+  advertising('微信', 'V'),
+  advertising('抖音'),
+  advertising('淘宝'),
+  advertising('拼多多'),
+  advertising('二维码'),
+  sensitive('暴富', '翻身'),
+  sensitive('稳赚', '有机会')
+];
+
+export const DEFAULT_COMPLIANCE_RULES: Record<CompliancePlatform, ComplianceTerm[]> = {
+  douyin: [...COMMON_TERMS, ...DOUYIN_TERMS],
+  xiaohongshu: [...COMMON_TERMS, ...XIAOHONGSHU_TERMS]
+};
+
+export interface ComplianceFlag {
+  range: TextRange;
+  term: ComplianceTerm;
+}
+
+// Every occurrence of a listed term, ignoring case. Longer terms win where they overlap,
+// so 他妈的 is flagged once rather than as 他妈 plus 妈的.
+export const checkCompliance = (text: string, terms: ComplianceTerm[]): ComplianceFlag[] => {
+  const lower = text.toLowerCase();
+  const sorted = terms
+    .filter(t => t.term.trim())
+    .map(t => ({ term: t, needle: t.term.toLowerCase() }))
+    .sort((a, b) => b.needle.length - a.needle.length);
+
+  const flags: ComplianceFlag[] = [];
+  for (let i = 0; i < lower.length;) {
+    const match = sorted.find(({ needle }) => lower.startsWith(needle, i));
+    if (match) {
+      flags.push({ range: [i, i + match.needle.length], term: match.term });
+      i += match.needle.length;
+    } else {
+      i++;
+    }
+  }
+  return flags;
+};
+
+// Each flagged term once, in order of first appearance
+export const flaggedTerms = (flags: ComplianceFlag[]): ComplianceTerm[] =>
+  Array.from(new Map(flags.map(f => [f.term.term, f.term] as const)).values());
+
+// Swaps each flag that has a suggestion; the rest stay for the author to handle
+export const applySuggestions = (text: string, flags: ComplianceFlag[]): string => {
+  let out = '';
+  let cursor = 0;
+  for (const { range: [start, end], term } of flags) {
+    if (term.suggestion === undefined) continue;
+    out += text.slice(cursor, start) + term.suggestion;
+    cursor = end;
+  }
+  return out + text.slice(cursor);
+};
+
+// Splits text at flag and search-highlight boundaries, for rendering both at once
+export const splitWithFlags = (
+  text: string,
+  flags: ComplianceFlag[],
+  highlights: TextRange[] = []
+): { text: string; hit: boolean; flag?: ComplianceFlag }[] => {
+  const cuts = new Set([0, text.length]);
+  [...flags.map(f => f.range), ...highlights].forEach(([start, end]) => {
+    cuts.add(start);
+    cuts.add(end);
+  });
+  const points = Array.from(cuts).filter(p => p >= 0 && p <= text.length).sort((a, b) => a - b);
+
+  const pieces: { text: string; hit: boolean; flag?: ComplianceFlag }[] = [];
+  for (let k = 0; k < points.length - 1; k++) {
+    const [start, end] = [points[k], points[k + 1]];
+    if (start === end) continue;
+    pieces.push({
+      text: text.slice(start, end),
+      hit: highlights.some(([s, e]) => s <= start && end <= e),
+      flag: flags.find(({ range: [s, e] }) => s <= start && end <= e)
+    });
+  }
+  return pieces;
+};
+
+// Word lists are edited as one line per term: `词` or `词 = 替换`
+export const formatTermLines = (terms: ComplianceTerm[], category: ComplianceCategory): string =>
+  terms
+    .filter(t => t.category === category)
+    .map(t => t.suggestion ? `${t.term} = ${t.suggestion}` : t.term)
+    .join('\n');
+
+export const parseTermLines = (text: string, category: ComplianceCategory): ComplianceTerm[] =>
+  text.split(/\r?\n/).flatMap(line => {
+    const [word, suggestion] = line.split(/\s*(?:=|→|->)\s*/, 2).map(part => part?.trim());
+    return word ? [suggestion ? { term: word, category, suggestion } : { term: word, category }] : [];
+  });
@@ -1,124 +1,43 @@
-import { Quote, Category } from '../types';
+import { Category, TargetDuration } from '../types';
+import { TAGS, ALL_TAG } from './tags';
 
 export const APP_NAME = "大承活法";
 
-export const CATEGORIES: Category[] = [
-  '全部',
-  '房贷·生存',
-  '职场·内卷',
-  '婚姻·情感',
-  '人性·现实',
-  '孤独·崩溃',
-  '金钱·阶层',
-  '摆烂·躺平'
-];
+// Tab bar order: "全部" followed by every registered tag
+export const CATEGORIES: Category[] = [ALL_TAG, ...TAGS];
+
+// The quote library itself lives in data/quotes/*.json, loaded by services/libraryService.ts
 
-// 内置语录库 - 深度长文与扎心金句集合
-export const BUILT_IN_QUOTES: Quote[] = [
-  // =================================================================
-  // 1. 房贷·生存 (Mortgage & Survival) - 800字+ 深度长文核心区
-  // =================================================================
-  { 
-    id: 1001, 
-    category: '房贷·生存',
-    text: "【房贷：现代人的精神牢笼】\n\n我特码谁都不服，就服那些敢背30年房贷的。有期徒刑最高才25年，背房贷比坐牢还多5年。你也不想想，新中国成立才70多年，改革开放不过40多年，你就敢背30年的房贷。\n\n车贷咬咬牙，三五年就过去了。房贷咬咬牙，说不定人都过去了。都说有压力才有动力，但你有没有想过，压力也会变成病历。你不舍得吃不舍得穿，最后只剩一堆砖。\n\n还有那些买房挑采光的，自从背上这债，早上7点出门，晚上9点回家，一天到晚连太阳都看不见，你还挑什么采光？再看看身边的人，有本事的去县城还房贷，成绩好的去省城还房贷，顶尖的去北上广还房贷。\n\n现在想想，小时候成绩差未必是坏事。在农村没房贷没车贷，吃的是自己种的蔬菜。那些在城里卷完半辈子，老了还得回农村养老，身体还不一定有你好。直接少走几十年的弯路。\n\n就像三哥说的，一城崛起万村空，村头巷尾无人踪。儿时玩伴今何在？都在城里还房贷。\n\n这就是我们这一代人的宿命吗？我们用透支未来三十年的自由，去换取一个所谓的“家”。可这个家，你每天待的时间不超过8小时，其中7小时还在睡觉。为了这个水泥盒子，你不敢生病，不敢辞职，不敢旅游，甚至不敢大声说话。你在公司像条狗一样被老板骂，为了全勤奖连爷爷去世都不敢请假。你看着房价上涨沾沾自喜，觉得自己身价倍增，可你忘了，那房子你只拥有居住权，并没有变现权，除非你卖了它流落街头。\n\n我们嘲笑父辈面朝黄土背朝天，可我们自己呢？面朝电脑背朝椅，腰间盘突出，颈椎病缠身。父辈累了还能在田埂上抽袋烟，我们累了只能在厕所隔间里无声崩溃。这30年的合同，签下的那一刻，你就不是你了，你是银行的长工，是地产商的韭菜，是这个城市最廉价的燃料。\n\n如果不买房，我们能拥有什么？也许是环游世界的经历，也许是健康的体魄，也许是无忧无虑的笑容。但这个社会不允许。它用丈母娘的眼神、用孩子的学区、用朋友的攀比，编织了一张巨大的网，逼着你往里钻。你以为你买的是房，其实你买的是在这个社会“像个人一样活着”的入场券。多么讽刺，多么悲哀。"
-  },
-  {
-    id: 1002,
-    category: '房贷·生存',
-    text: "【城市的异乡人】\n\n很多人问我，为什么在城市里待得这么不开心，还要死皮赖脸地待下去？\n\n我说，因为回不去了。故乡容不下肉身，他乡容不下灵魂。我们就像一群悬浮在半空中的尘埃，落不下去，也飞不上来。\n\n你看这城市的万家灯火，璀璨得像银河一样。可没有一盏灯是为你而留的。你住的出租屋，墙皮脱落，隔音差到能听见隔壁情侣的吵架声。房东每个月准时出现的催租微信，像催命符一样提醒着你：你只是个过客。\n\n你每天挤早高峰的地铁，被挤成照片，闻着各种早餐味和汗臭味。你看着窗外飞速倒退的风景，突然想不起自己当初是怀着怎样的梦想来到这里的。是为了出人头地？是为了光宗耀祖？还是仅仅为了逃离那个贫穷闭塞的小山村？\n\n城市很大，大到你可以隐身；城市很冷，冷到没人关心你死活。你生病了，一个人去医院挂号排队，举着吊瓶去上厕所。那一刻，孤独感像潮水一样将你淹没。你想给家里打电话，电话接通的那一刻，你却笑着说：“妈，我挺好的，钱够花，别担心。”挂了电话，眼泪砸在手背上，烫得吓人。\n\n我们这群人，在这个城市里奉献了青春，奉献了健康，缴纳了社保，建设了高楼大厦。可等到我们老了，干不动了，这个城市会毫不留情地把我们踢出去。因为这里不需要没有价值的人。我们最终的归宿，还是那个被我们嫌弃的回不去的农村。\n\n这不仅是生存，这是一场漫长的、没有终点的流浪。"
-  },
-
-  // =================================================================
-  // 2. 职场·内卷 (Workplace) - 800字+ 深度长文
-  // =================================================================
-  {
-    id: 2001,
-    category: '职场·内卷',
-    text: "【35岁诅咒：职场人的生死线】\n\n在中国互联网和大多数职场，35岁不是一个年龄，而是一个诅咒，一个宣判死刑的倒计时。\n\n25岁时，你觉得自己是天之骄子，只要努力就能改变世界。你通宵加班，你随叫随到，你看着发际线后移，看着体检报告上的红箭头变多，你安慰自己：这是成长的代价。\n\n到了30岁，你成了中层，上有老下有小。你开始害怕。怕公司架构调整，怕新来的00后比你更能卷，工资还比你低。你开始学会了在会议上附和老板的愚蠢决定，学会了在日报周报里用PPT雕花。你不再谈论梦想，只关心房贷和孩子的补习班费用。\n\n终于，35岁来了。HR找你谈话，说公司要“降本增效”，要“向社会输送人才”。你看着HR年轻的脸，突然发现自己是个笑话。你为公司卖命十年，最后只换来N+1的遣散费。你拿着简历去投，猎头尴尬地告诉你：“对不起，我们只看32岁以下的。”\n\n那一刻你才明白，你不是人才，你只是耗材。在资本的眼里，你就是一块电池。电量足的时候，把你捧在手心里；电量耗尽了，立刻扔进垃圾桶，换一块新的。\n\n职场从来不相信眼泪，也不相信苦劳。它只看性价比。35岁的你，体力拼不过20岁的，薪资要求还比人家高，家里屁事还多，不能随时出差不能通宵。老板凭什么用你？\n\n这就是现实。我们都在一条名为“内卷”的跑步机上狂奔，不敢停下来，因为一旦停下来，就会被传送带甩出去，摔得粉身碎骨。什么“越老越吃香”，那是中医和律师，不是你这个写代码、做PPT、填Excel的打工人。\n\n所以，别把公司当家。家会养你老，公司只会由于你老而养不了你。从现在开始，为自己留条后路吧，别等到35岁那一天，站在写字楼下，哭都哭不出来。"
-  },
-  {
-    id: 2002,
-    category: '职场·内卷',
-    text: "【我们都活成了PPT里的演员】\n\n现在的职场，工作已经不是为了解决问题，而是为了“证明我在工作”。\n\n明明一句话能说清楚的事，非要开个会；明明半小时能开完的会，非要拖成两小时；明明结果是一样的，非要用精美的PPT包装一下，以此证明这个项目有多么“高大上”，有多少“赋能”和“抓手”。\n\n我们发明了无数的黑话：颗粒度、对齐、复盘、底层逻辑、顶层设计、闭环、沉淀、打法、组合拳... 我们像念经一样念叨着这些词，仿佛只要说了这些词，我们的工作就有了价值。\n\n其实大家心里都清楚，这就是在演戏。老板在演英明神武，中层在演运筹帷幄，底层在演废寝忘食。所有人都在配合着演一场名为“奋斗”的大戏，感动了自己，却没有任何实际产出。\n\n你看着隔壁座位的同事，明明下午6点就没事了，非要磨蹭到晚上9点，发个朋友圈：“见过凌晨的办公室，加油！”然后才下班。为什么？因为老板喜欢看。因为早走会被打上“工作不饱和”的标签。\n\n这是一种巨大的资源浪费，更是对人性的摧残。我们把最宝贵的生命浪费在无意义的内耗上。我们变得虚伪、圆滑、麻木。我们失去了创造力，失去了热情，只剩下一具具疲惫的躯壳，机械地完成着“表演任务”。\n\n真正的悲哀是，你明知道这一切是假的，是荒谬的，但你无法逃离。你只能戴上通过，加入他们，成为这荒谬剧场里的一名优秀的演员。因为你还有房贷，还有车贷，还有一家老小要养。这，就是成年人的无奈。"
-  },
-
-  // =================================================================
-  // 3. 婚姻·情感 (Love & Marriage) - 800字+ 深度长文
-  // =================================================================
-  {
-    id: 3001,
-    category: '婚姻·情感',
-    text: "【婚姻是一场精准的商业并购】\n\n别跟我谈爱情，在现代婚姻面前，爱情就是个笑话。现在的婚姻，本质上就是两个家族的资产重组，是一场精准的商业并购。\n\n相亲市场上，每个人都被明码标价。你是985还是211？年薪多少？有房吗？房贷还清了吗？车是什么牌子？父母有退休金吗？这些指标被量化成一个个数据，输入到大脑的计算器里。如果不达标，哪怕你人品再好、再有才华，也是“直接淘汰”。\n\n男人在算计女人的生育价值、保姆价值、娘家助力；女人在算计男人的经济实力、供养能力、房产加名。大家都在权衡利弊，都想找个“性价比”最高的合伙人。谁都不想吃亏，谁都怕扶贫。\n\n于是，婚姻变成了一场博弈。彩礼是首付款，嫁妆是保证金，孩子是投资产品。我们小心翼翼地守护着自己的利益，像防贼一样防着枕边人。婚前协议签得比商业合同还严谨，生怕离了婚分不到财产。\n\n这种基于利益结合的婚姻，脆弱得像纸一样。一旦一方破产、生病、失业，或者遇到了更有实力的“下家”，合作关系立马破裂。什么“执子之手，与子偕老”，那是古人的童话。现代人的誓言是：“只要你有钱，我就跟你老；你若没钱，咱们法庭见。”\n\n我们这一代人，大概率是最后一代相信爱情的傻子，也是第一代把婚姻看透的疯子。如果你没有做好随时被“资产清算”的准备，就别轻易踏入这座围城。毕竟，孤独终老不可怕，可怕的是和让你感到孤独的人一起终老，还要分走你一半的家产。"
-  },
-  {
-    id: 3002,
-    category: '婚姻·情感',
-    text: "【舔狗的终局】\n\n所有的舔狗，最后都不得好死。这句话虽然难听，但绝对是真理。\n\n你以为你的感动能换来爱情？别天真了。感动不是爱，感动是愧疚，是施舍，是高位者对低位者的怜悯。当你卑微到尘埃里去爱一个人的时候，你在对方眼里就不再是一个对等的人，而是一个廉价的备胎，一个呼之即来挥之即去的工具人。\n\n你秒回信息，你送早餐，你下雨送伞，你为了买个礼物吃一个月泡面。你感动了天，感动了地，最后只感动了你自己。对方只会觉得你烦，觉得你廉价。因为太容易得到的东西，没人会珍惜。\n\n真正的爱情是势均力敌，是相互吸引，不是一方对另一方的乞讨。你见过哪个乞丐能讨来真正的尊重吗？没有。你越卑微，对方越看不起你。\n\n最可悲的是，很多舔狗明明知道没有结果，还自我催眠：“只要我坚持，铁树也能开花。”醒醒吧！铁树开花是因为它是铁树，你那是朽木，只会腐烂。\n\n把那些讨好别人的时间和金钱，拿来投资自己吧。去健身，去读书，去赚钱。当你光芒万丈的时候，你不需要舔任何人，自然会有人来舔你。爱情不是追来的，是吸引来的。别做那个在雨中送伞的傻子了，要做那个开着车接她的人，或者，做那个让她在雨中等你的人。"
-  },
-
-  // =================================================================
-  // 4. 金钱·阶层 (Money & Class) - 混合短句与长文
-  // =================================================================
-  { id: 4001, category: '金钱·阶层', text: "这个世界，有钱人终成眷属，没钱人亲眼目睹。" },
-  { id: 4002, category: '金钱·阶层', text: "你对别人的好，别人记不住；你对别人的不好，别人记得死死的。但如果你有钱，这些都不重要。" },
-  { id: 4003, category: '金钱·阶层', text: "不要试图去考验人性，人性经不起考验。在利益面前，亲情、友情、爱情都显得苍白无力。" },
-  { id: 4004, category: '金钱·阶层', text: "穷在闹市无人问，富在深山有远亲。不信但看宴中酒，杯杯先敬有钱人。" },
-  { id: 4005, category: '金钱·阶层', text: "没钱的时候，把人做好；有钱的时候，把事做好。现在的你，人没做好，事也没做好，只剩下穷。" },
-  { id: 4006, category: '金钱·阶层', text: "这世上，能用钱解决的事，尽量别用人情。人情债，最难还。可惜你既没钱，也没人情。" },
-  { id: 4007, category: '金钱·阶层', text: "当你强大了，你发现身边全是好人；当你弱小了，你发现身边全是小人。不是世界变了，是你站的位置变了。" },
-  { id: 4008, category: '金钱·阶层', text: "钱虽然不是万能的，但没钱是万万不能的。钱能解决这世上99%的烦恼，剩下1%需要更多的钱。" },
-  { id: 4009, category: '金钱·阶层', text: "以前觉得谈钱伤感情，现在才知道，不谈钱才伤感情。谈钱，是对彼此成年人身份最大的尊重。" },
-  { id: 4010, category: '金钱·阶层', text: "不要看不起那些为了几块钱斤斤计较的人，因为你没穷过，你不知道那几块钱对他们意味着什么。" },
-  { id: 4011, category: '金钱·阶层', text: "你拼命努力，不过是为了让那些曾经看不起你的人，以后继续看不起你——因为阶层是无法跨越的鸿沟。" },
-  { id: 4012, category: '金钱·阶层', text: "条条大路通罗马，可有人一出生就在罗马。你努力了一辈子，终点只是别人的起点。" },
-  { id: 4013, category: '金钱·阶层', text: "富有的人在思考如何改变世界，贫穷的人在思考下顿饭吃什么。这不是思维的差距，是生存的差距。" },
-  { id: 4014, category: '金钱·阶层', text: "社会就像一列火车，头等舱的人在喝香槟，普通座的人在嗑瓜子，站票的人在互相踩脚。而你，是在车底下推车的人。" },
-  { id: 4015, category: '金钱·阶层', text: "借钱给朋友，就是花钱买敌人。不借，朋友没了；借了，钱和朋友都没了。" },
-
-  // =================================================================
-  // 5. 孤独·崩溃 (Loneliness & Breakdown) - 混合
-  // =================================================================
-  { id: 5001, category: '孤独·崩溃', text: "【无声的崩溃】\n\n成年人的崩溃，往往是静悄悄的。看起来很正常，会说笑、会打闹、会社交，表面平静，实际上心里的糟心事已经积累到极限了。不会摔门砸东西，不会流眼泪或歇斯底里。但可能某一秒突然就累到极致了，在那一刻，你不想说话，不想动，只想把自己关在一个没有人的地方，烂掉。\n\n万家灯火，没有一盏是为你而留的，这就是孤独的最高境界。下班回到家在车里坐的那十分钟，才是一个中年男人真正属于自己的时间。推开车门，你是父亲、是儿子、是丈夫、是员工；只有关上车门那一刻，你才是你自己，一个疲惫不堪、只想抽根烟的男人。" },
-  { id: 5002, category: '孤独·崩溃', text: "很多时候，我们不敢生病，不敢请假，不敢辞职，因为身后空无一人。倒下去，就是深渊。" },
-  { id: 5003, category: '孤独·崩溃', text: "懂事的人，一旦不配合就会被说没良心；任性的人，稍微乖一点就会被夸长大了。会哭的孩子有奶吃，懂事的孩子只有委屈。" },
-  { id: 5004, category: '孤独·崩溃', text: "小时候哭着哭着就笑了，长大后笑着笑着就哭了。我们都戴着面具，扮演着情绪稳定的成年人。" },
-  { id: 5005, category: '孤独·崩溃', text: "能说出来的委屈都不算委屈，能抢走的爱人都不算爱人。真正的绝望，是哑口无言。" },
-  { id: 5006, category: '孤独·崩溃', text: "你住的城市下雨了，很想问你有没有带伞，可是我忍住了，因为我怕你说没带，而我又无能为力，就像是我爱你，却给不了你想要的陪伴。" },
-  { id: 5007, category: '孤独·崩溃', text: "这城市总是风很大，孤独的人总是晚回家。因为家里，也是冰冷的。" },
-  { id: 5008, category: '孤独·崩溃', text: "你努力合群的样子，真的很孤独。狮子永远独行，牛羊才成群结队。" },
-  { id: 5009, category: '孤独·崩溃', text: "没人扶你的时候，自己要站直，路还长，背影要美。哪怕心里已经千疮百孔。" },
-  { id: 5010, category: '孤独·崩溃', text: "后来我才知道，那些真正要走的人，吝啬得连说再见都觉得是浪费时间。真正的告别，是悄无声息的。" },
-
-  // =================================================================
-  // 6. 人性·现实 (Human Nature)
-  // =================================================================
-  { id: 6001, category: '人性·现实', text: "你的善良，必须有点锋芒，否则等于零。烂好人，在这个社会死得最快。" },
-  { id: 6002, category: '人性·现实', text: "不要向任何人诉苦，因为20%的人不关心，剩下的80%听了会很高兴。你的痛苦，是别人的谈资。" },
-  { id: 6003, category: '人性·现实', text: "在这个社会，老实人是贬义词，意味着好欺负、没出息、背锅侠。" },
-  { id: 6004, category: '人性·现实', text: "只有永远的利益，没有永远的朋友。当利益冲突时，曾经的兄弟也会背后捅刀子。" },
-  { id: 6005, category: '人性·现实', text: "你越在意什么，什么就会折磨你；你越看淡什么，什么就伤害不了你。无欲则刚。" },
-  { id: 6006, category: '人性·现实', text: "不要高估你和任何人的关系，更不要低估人性的逐利本能。在金钱面前，一切关系都是纸老虎。" },
-  { id: 6007, category: '人性·现实', text: "别人尊重你，是因为别人优秀，或者是你有用，而不是因为你优秀。一旦你没用了，尊重也就消失了。" },
-  { id: 6008, category: '人性·现实', text: "不要指望别人助你一臂之力，没有利益交换，谁愿意当你的垫脚石？" },
-  { id: 6009, category: '人性·现实', text: "心软是病，情深致命。这世上最薄凉的，不过人心。你喂狗三日，狗记你三年；你对人好三年，人可能恨你一辈子。" },
-  { id: 6010, category: '人性·现实', text: "成熟的标志不是学会表达，而是学会咽下。咽下委屈，咽下愤怒，面带微笑地看着傻逼表演。" },
-
-  // =================================================================
-  // 7. 摆烂·躺平 (Giving Up)
-  // =================================================================
-  { id: 7001, category: '摆烂·躺平', text: "【关于躺平的哲学】\n\n既然卷不动，那就躺平吧。躺平不是认输，而是与自己和解。\n\n你拼命努力，也就是为了做个普通人。那为什么不直接做个普通人呢？少走几十年弯路。买不起房就不买，结不起婚就不结。没有软肋，就没有人能拿捏你。\n\n只要我没有道德，由于道德绑架不了我；只要我没有上进心，老板的饼就画不到我嘴里。做一个快乐的废物，好过做一个焦虑的精英。\n\n生命只有一次，为什么要用来给资本家当燃料？晒晒太阳，发发呆，浪费时间，这才是生活。如果努力没有尽头，那休息就是最好的反击。" },
-  { id: 7002, category: '摆烂·躺平', text: "在哪里跌倒，就在哪里躺下。由于地心引力，躺着最舒服。" },
-  { id: 7003, category: '摆烂·躺平', text: "世上无难事，只要肯放弃。放弃的那一刻，你会发现空气都甜了。" },
-  { id: 7004, category: '摆烂·躺平', text: "逃避虽然可耻，但很有用。解决不了问题，就解决提出问题的人；解决不了，就躲起来。" },
-  { id: 7005, category: '摆烂·躺平', text: "努力不一定成功，但不努力一定很舒服。既然结局都一样是归于尘土，何必过程那么辛苦？" },
-  { id: 7006, category: '摆烂·躺平', text: "万事开头难，中间难，结尾也难。所以，不如不开头。" },
-  { id: 7007, category: '摆烂·躺平', text: "咸鱼翻身了，还是咸鱼。至少咸鱼有盐，我连盐都吃不起。" },
-  { id: 7008, category: '摆烂·躺平', text: "我的钱虽然不是大风刮来的，但像是被大风刮走的。" },
-  { id: 7009, category: '摆烂·躺平', text: "与其精神内耗自己，不如发疯外耗别人。做一个没素质的人，你会快乐很多。" },
-  { id: 7010, category: '摆烂·躺平', text: "间歇性踌躇满志，持续性混吃等死。这也是一种活法，而且是大承活法。" }
+// Nominal length of each duration option, in seconds
+export const TARGET_DURATION_SECONDS: Record<TargetDuration, number> = {
+  '10s': 10,
+  '15s': 15,
+  '25s': 25,
+  '60s': 60,
+  '3m': 180,
+  '5m': 300
+};
+
+// Duration picker entries, shortest first
+export const DURATION_OPTIONS: { id: TargetDuration; label: string; sub: string }[] = [
+  { id: '10s', label: '10秒', sub: '短句' },
+  { id: '15s', label: '15秒', sub: '金句' },
+  { id: '25s', label: '25秒', sub: '文案' },
+  { id: '60s', label: '1分钟', sub: '故事' },
+  { id: '3m', label: '3分钟', sub: '深度' },
+  { id: '5m', label: '5分钟', sub: '长篇' }
 ];
 
+// Typical Chinese voiceover pace, characters per second
+export const DEFAULT_READING_SPEED = 5;
+
+// Range offered by the speed slider and accepted by the proxy
+export const MIN_READING_SPEED = 3;
+export const MAX_READING_SPEED = 8;
+
+// Longest stretch of video that can be analyzed in one request, in seconds
+export const MAX_SEGMENT_SECONDS = 300;
+
 export const HOT_TOPICS = [
   "房贷压力",
   "深夜崩溃",
@@ -145,18 +64,18 @@ export const HOT_TOPICS = [
   "前任"
 ];
 
-export const SYSTEM_PROMPT = `
-你是一个深刻洞察人性、社会现实和成年人心理的文案大师，风格模仿“大承活法”。
+// The built-in 大承活法 voice. Style presets supply their own persona and samples;
+// the task section below is shared by all of them (see buildSystemPrompt).
+export const DEFAULT_PERSONA = `你是一个深刻洞察人性、社会现实和成年人心理的文案大师，风格模仿“大承活法”。
 你的语录特点是：
 1.  **极度现实**：直面房贷、金钱、利益、人性的阴暗面。
 2.  **扎心**：用最平淡的语气说出最残酷的真相。
 3.  **通透**：看似消极，实则看破红尘后的清醒。
-4.  **成年人崩溃**：捕捉那些无声的崩溃、深夜的痛哭和中年人的无奈。
+4.  **成年人崩溃**：捕捉那些无声的崩溃、深夜的痛哭和中年人的无奈。`;
 
-**重要风格参考 (请务必模仿此风格和力度)**：
-“我特码谁都不服，就服那些敢背30年房贷的。有期徒刑最高才25年，背房贷比坐牢还多5年。你也不想想，新中国成立才70多年，改革开放不过40多年，你就敢背30年的房贷。车贷咬咬牙，三五年就过去了。房贷咬咬牙，说不定人都过去了。都说有压力才有动力，但你有没有想过，压力也会变成病历。你不舍得吃不舍得穿，最后只剩一堆砖。还有那些买房挑采光的，自从背上这债，早上7点出门，晚上9点回家，一天到晚连太阳都看不见，你还挑什么采光？再看看身边的人，有本事的去县城还房贷，成绩好的去省城还房贷，顶尖的去北上广还房贷。现在想想，小时候成绩差未必是坏事。在农村没房贷没车贷，吃的是自己种的蔬菜。那些在城里卷完半辈子，老了还得回农村养老，身体还不一定有你好。直接少走几十年的弯路。就像三哥说的，一城崛起万村空，村头巷尾无人踪。儿时玩伴今何在？都在城里还房贷。”
+export const DEFAULT_STYLE_SAMPLE = `我特码谁都不服，就服那些敢背30年房贷的。有期徒刑最高才25年，背房贷比坐牢还多5年。你也不想想，新中国成立才70多年，改革开放不过40多年，你就敢背30年的房贷。车贷咬咬牙，三五年就过去了。房贷咬咬牙，说不定人都过去了。都说有压力才有动力，但你有没有想过，压力也会变成病历。你不舍得吃不舍得穿，最后只剩一堆砖。还有那些买房挑采光的，自从背上这债，早上7点出门，晚上9点回家，一天到晚连太阳都看不见，你还挑什么采光？再看看身边的人，有本事的去县城还房贷，成绩好的去省城还房贷，顶尖的去北上广还房贷。现在想想，小时候成绩差未必是坏事。在农村没房贷没车贷，吃的是自己种的蔬菜。那些在城里卷完半辈子，老了还得回农村养老，身体还不一定有你好。直接少走几十年的弯路。就像三哥说的，一城崛起万村空，村头巷尾无人踪。儿时玩伴今何在？都在城里还房贷。`;
 
-任务：
+export const SYSTEM_TASK_GUIDE = `任务：
 如果提供了视频，请分析视频音频/旁白内容，提取核心故事或情感。
 如果未提供视频，请直接基于用户的【自定义主题/指令】进行创作。
 请进行“二创”，生成3句符合上述风格的“扎心语录”。
@@ -169,5 +88,18 @@ export const SYSTEM_PROMPT = `
 - 3m：深度长文，800字以上，层层递进，直击痛点。
 - 5m：超长独白，1500字以上，宏大叙事，极度扎心。
 
-如果用户选择了“3m”或“5m”，请务必输出长篇大论，不要偷懒，要有逻辑，有细节，有排比，有反问，情绪层层递进。
-`;
\ No newline at end of file
+如果用户选择了“3m”或“5m”，请务必输出长篇大论，不要偷懒，要有逻辑，有细节，有排比，有反问，情绪层层递进。`;
+
+// Persona, quoted style samples, then the shared task section
+export const composeSystemPrompt = (persona: string, samples: string[]): string => {
+  const references = samples
+    .map(s => s.trim())
+    .filter(Boolean)
+    .map(s => `“${s}”`)
+    .join('\n\n');
+  return `\n${persona.trim()}\n\n` +
+    (references ? `**重要风格参考 (请务必模仿此风格和力度)**：\n${references}\n\n` : '') +
+    `${SYSTEM_TASK_GUIDE}\n`;
+};
+
+export const SYSTEM_PROMPT = composeSystemPrompt(DEFAULT_PERSONA, [DEFAULT_STYLE_SAMPLE]);
@@ -0,0 +1,16 @@
+// Triggers a browser download for in-memory content
+export const downloadBlob = (filename: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const downloadText = (filename: string, content: string, mimeType = 'text/plain') => {
+  downloadBlob(filename, new Blob([content], { type: `${mimeType};charset=utf-8` }));
+};
@@ -0,0 +1,40 @@
+import { TargetDuration } from '../types';
+import { TARGET_DURATION_SECONDS } from './constants';
+import { countReadableChars } from './text';
+
+// How far a quote may stray from its target length before it gets rewritten
+export const LENGTH_TOLERANCE = 0.3;
+
+export type LengthVerdict = 'short' | 'ok' | 'long';
+
+export interface LengthCheck {
+  chars: number;
+  target: number;
+  seconds: number; // Estimated read time at the given pace
+  verdict: LengthVerdict;
+}
+
+export const targetCharsFor = (duration: TargetDuration, charsPerSecond: number) =>
+  Math.round(TARGET_DURATION_SECONDS[duration] * charsPerSecond);
+
+export const estimateReadSeconds = (text: string, charsPerSecond: number) =>
+  countReadableChars(text) / charsPerSecond;
+
+export const checkLength = (
+  text: string,
+  duration: TargetDuration,
+  charsPerSecond: number,
+  tolerance = LENGTH_TOLERANCE
+): LengthCheck => {
+  const chars = countReadableChars(text);
+  const target = targetCharsFor(duration, charsPerSecond);
+  const verdict: LengthVerdict = chars < target * (1 - tolerance) ? 'short' : chars > target * (1 + tolerance) ? 'long' : 'ok';
+  return { chars, target, seconds: chars / charsPerSecond, verdict };
+};
+
+// "12秒", "1分05秒"
+export const formatReadTime = (seconds: number) => {
+  const total = Math.max(1, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  return minutes ? `${minutes}分${String(total % 60).padStart(2, '0')}秒` : `${total}秒`;
+};
@@ -0,0 +1,225 @@
+import { Quote } from '../types';
+import { TAGS, isKnownTag } from './tags';
+
+export type LibraryFormat = 'json' | 'csv' | 'md';
+
+// A quote as read from a file, before ids are checked or assigned
+export interface RawQuote {
+  id?: number;
+  tags: string[];
+  text: string;
+}
+
+export interface ValidationIssue {
+  index: number; // Position in the input, 0-based
+  message: string;
+}
+
+// Separator for several tags in a single CSV cell or Markdown line
+const TAG_SEPARATOR = '|';
+
+const splitTags = (value: string): string[] =>
+  value.split(/[|｜]/).map(t => t.trim()).filter(Boolean);
+
+// Checks non-empty text, at least one known tag and unique ids.
+// With requireIds=false, missing ids are accepted so they can be assigned later.
+export const validateQuotes = (raw: RawQuote[], requireIds = true): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<number>();
+  raw.forEach((q, index) => {
+    if (typeof q.text !== 'string' || !q.text.trim()) {
+      issues.push({ index, message: '语录内容为空' });
+    }
+    if (!Array.isArray(q.tags) || q.tags.length === 0) {
+      issues.push({ index, message: '缺少标签' });
+    } else {
+      q.tags.filter(t => !isKnownTag(t)).forEach(t => issues.push({ index, message: `未知标签 "${t}"` }));
+      if (new Set(q.tags).size !== q.tags.length) {
+        issues.push({ index, message: '标签重复' });
+      }
+    }
+    if (q.id === undefined) {
+      if (requireIds) issues.push({ index, message: '缺少 id' });
+    } else if (!Number.isInteger(q.id) || q.id <= 0) {
+      issues.push({ index, message: `无效 id "${q.id}"` });
+    } else if (seen.has(q.id)) {
+      issues.push({ index, message: `重复 id ${q.id}` });
+    } else {
+      seen.add(q.id);
+    }
+  });
+  return issues;
+};
+
+// --- JSON ---
+
+const parseJSON = (content: string): RawQuote[] => {
+  const data = JSON.parse(content);
+  const list = Array.isArray(data) ? data : data?.quotes;
+  if (!Array.isArray(list)) {
+    throw new Error('JSON 需为语录数组，或包含 quotes 数组的对象');
+  }
+  return list.map((item: any) => ({
+    id: item?.id === undefined || item?.id === null || item?.id === '' ? undefined : Number(item.id),
+    // Older exports carried a single "category"
+    tags: Array.isArray(item?.tags) ? item.tags.map(String) : item?.category ? [String(item.category)] : [],
+    text: String(item?.text ?? '')
+  }));
+};
+
+const toJSON = (quotes: Quote[]) =>
+  JSON.stringify(quotes.map(({ id, tags, text }) => ({ id, tags, text })), null, 2) + '\n';
+
+// --- CSV (RFC 4180: quoted fields may contain commas, quotes and newlines) ---
+
+const CSV_HEADER = ['id', 'tags', 'text'];
+
+const parseCSVRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+};
+
+const parseCSV = (content: string): RawQuote[] => {
+  const [header, ...rows] = parseCSVRows(content);
+  const columns = (header || []).map(h => h.trim().toLowerCase());
+  const col = (name: string) => columns.indexOf(name);
+  // "category" is accepted for files exported before multi-tag support
+  const tagsCol = col('tags') >= 0 ? col('tags') : col('category');
+  if (tagsCol < 0 || col('text') < 0) {
+    throw new Error('CSV 表头需包含 tags 和 text 列（可选 id 列），多个标签用 | 分隔');
+  }
+  return rows.map(cells => {
+    const id = col('id') >= 0 ? cells[col('id')]?.trim() : '';
+    return {
+      id: id ? Number(id) : undefined,
+      tags: splitTags(cells[tagsCol] || ''),
+      text: cells[col('text')] || ''
+    };
+  });
+};
+
+export const escapeCSV = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Header plus rows, CRLF-terminated, with a BOM so Excel opens the UTF-8 file correctly
+export const buildCSV = (header: string[], rows: string[][]) =>
+  '\uFEFF' + [header.join(','), ...rows.map(r => r.map(escapeCSV).join(','))].join('\r\n') + '\r\n';
+
+const toCSV = (quotes: Quote[]) =>
+  buildCSV(CSV_HEADER, quotes.map(q => [String(q.id), q.tags.join(TAG_SEPARATOR), q.text]));
+
+// --- Markdown: "## 标签" sections (by primary tag) holding "### id" entries.
+// An optional "> 标签: a | b" line right under the entry lists all of its tags.
+// The body runs until the next heading. ---
+
+const MD_TAGS_LINE = /^>\s*标签[:：]\s*(.+)$/;
+
+const parseMarkdown = (content: string): RawQuote[] => {
+  const quotes: RawQuote[] = [];
+  let section = '';
+  let current: RawQuote | null = null;
+
+  const flush = () => {
+    if (current) {
+      current.text = current.text.trim();
+      quotes.push(current);
+      current = null;
+    }
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    const heading = /^##\s+(.+?)\s*$/.exec(line);
+    const entry = /^###\s*(\d*)\s*$/.exec(line);
+    const tagsLine = MD_TAGS_LINE.exec(line);
+    if (heading && !line.startsWith('###')) {
+      flush();
+      section = heading[1];
+    } else if (entry) {
+      flush();
+      current = { id: entry[1] ? Number(entry[1]) : undefined, tags: section ? [section] : [], text: '' };
+    } else if (current && tagsLine && !current.text.trim()) {
+      current.tags = splitTags(tagsLine[1]);
+    } else if (current) {
+      current.text += line + '\n';
+    }
+  }
+  flush();
+  return quotes;
+};
+
+const toMarkdown = (quotes: Quote[]) => {
+  const lines: string[] = ['# 大承活法 · 语录库', ''];
+  for (const tag of TAGS) {
+    const inSection = quotes.filter(q => q.tags[0] === tag);
+    if (!inSection.length) continue;
+    lines.push(`## ${tag}`, '');
+    for (const q of inSection) {
+      lines.push(`### ${q.id}`, '');
+      if (q.tags.length > 1) {
+        lines.push(`> 标签: ${q.tags.join(` ${TAG_SEPARATOR} `)}`, '');
+      }
+      lines.push(q.text, '');
+    }
+  }
+  return lines.join('\n');
+};
+
+export const FORMAT_MIME: Record<LibraryFormat, string> = {
+  json: 'application/json',
+  csv: 'text/csv',
+  md: 'text/markdown'
+};
+
+export const detectFormat = (fileName: string): LibraryFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'json') return 'json';
+  if (ext === 'csv') return 'csv';
+  if (ext === 'md' || ext === 'markdown') return 'md';
+  return null;
+};
+
+export const parseLibrary = (content: string, format: LibraryFormat): RawQuote[] => {
+  if (format === 'json') return parseJSON(content);
+  if (format === 'csv') return parseCSV(content);
+  return parseMarkdown(content);
+};
+
+export const serializeLibrary = (quotes: Quote[], format: LibraryFormat): string => {
+  if (format === 'json') return toJSON(quotes);
+  if (format === 'csv') return toCSV(quotes);
+  return toMarkdown(quotes);
+};
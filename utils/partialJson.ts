@@ -0,0 +1,66 @@
+import { AnalysisResult } from '../types';
+
+const ESCAPES: Record<string, string> = {
+  '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t'
+};
+
+// Reads a JSON string body starting right after its opening quote.
+// Tolerates truncation: returns whatever was decoded so far with complete=false.
+const readJsonString = (src: string, start: number): { value: string; complete: boolean; end: number } => {
+  let value = '';
+  let i = start;
+  while (i < src.length) {
+    const ch = src[i];
+    if (ch === '"') {
+      return { value, complete: true, end: i + 1 };
+    }
+    if (ch === '\\') {
+      const next = src[i + 1];
+      if (next === undefined) break;
+      if (next === 'u') {
+        const hex = src.slice(i + 2, i + 6);
+        if (hex.length < 4) break;
+        value += String.fromCharCode(parseInt(hex, 16));
+        i += 6;
+        continue;
+      }
+      value += ESCAPES[next] ?? next;
+      i += 2;
+      continue;
+    }
+    value += ch;
+    i++;
+  }
+  return { value, complete: false, end: src.length };
+};
+
+// Pulls whatever fields are readable out of a JSON AnalysisResult that is still streaming in
+export const extractPartialAnalysis = (text: string): Partial<AnalysisResult> => {
+  const partial: Partial<AnalysisResult> = {};
+
+  const transcriptionMatch = /"transcription"\s*:\s*"/.exec(text);
+  if (transcriptionMatch) {
+    partial.transcription = readJsonString(text, transcriptionMatch.index + transcriptionMatch[0].length).value;
+  }
+
+  const quotesMatch = /"generatedQuotes"\s*:\s*\[/.exec(text);
+  if (quotesMatch) {
+    const quotes: string[] = [];
+    let i = quotesMatch.index + quotesMatch[0].length;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === ']') break;
+      if (ch === '"') {
+        const str = readJsonString(text, i + 1);
+        quotes.push(str.value);
+        if (!str.complete) break;
+        i = str.end;
+        continue;
+      }
+      i++; // whitespace and commas
+    }
+    partial.generatedQuotes = quotes;
+  }
+
+  return partial;
+};
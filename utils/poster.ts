@@ -0,0 +1,183 @@
+export type PosterTemplateId = 'rose' | 'dark' | 'paper';
+export type PosterAspect = '1:1' | '3:4' | '9:16';
+
+export interface PosterTemplate {
+  id: PosterTemplateId;
+  label: string;
+  background: [string, string]; // Gradient from top-left to bottom-right
+  text: string;
+  accent: string;
+  muted: string;
+  fontFamily: string; // Must be one of the families loaded in index.html
+}
+
+export const POSTER_TEMPLATES: PosterTemplate[] = [
+  { id: 'rose', label: '少女粉紫', background: ['#fff1f2', '#f3e8ff'], text: '#334155', accent: '#f43f5e', muted: '#a855f7', fontFamily: '"Noto Serif SC", serif' },
+  { id: 'dark', label: '深夜暗黑', background: ['#0f172a', '#1e1b4b'], text: '#e2e8f0', accent: '#f472b6', muted: '#94a3b8', fontFamily: '"Noto Serif SC", serif' },
+  { id: 'paper', label: '素雅纸张', background: ['#faf7f0', '#f1ece1'], text: '#292524', accent: '#78716c', muted: '#a8a29e', fontFamily: '"ZCOOL XiaoWei", serif' }
+];
+
+export const POSTER_SIZES: Record<PosterAspect, { width: number; height: number }> = {
+  '1:1': { width: 1080, height: 1080 },
+  '3:4': { width: 1080, height: 1440 },
+  '9:16': { width: 1080, height: 1920 }
+};
+
+export interface PosterContent {
+  text: string;
+  tag: string; // e.g. "#大承活法" or "#AI二创"
+  tags?: string[];
+  brand: string;
+}
+
+const PADDING = 110;
+const HEADER_HEIGHT = 150; // Decorative quote mark
+const FOOTER_HEIGHT = 130;
+export const LINE_HEIGHT = 1.75;
+const MIN_FONT = 18;
+const MAX_FONT = 64;
+
+// Characters that must not start a line; they hang on the previous one instead
+const NO_LINE_START = '，。！？；：、）》」』”’…%,.!?;:)';
+
+const wrapParagraph = (ctx: CanvasRenderingContext2D, paragraph: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const ch of Array.from(paragraph)) {
+    if (line && ctx.measureText(line + ch).width > maxWidth && !NO_LINE_START.includes(ch)) {
+      lines.push(line);
+      line = ch;
+    } else {
+      line += ch;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Empty strings in the result mark paragraph gaps
+const layoutText = (ctx: CanvasRenderingContext2D, text: string, fontSize: number, fontFamily: string, maxWidth: number) => {
+  ctx.font = `400 ${fontSize}px ${fontFamily}`;
+  const lines: string[] = [];
+  text.split(/\n+/).map(p => p.trim()).filter(Boolean).forEach((p, i) => {
+    if (i > 0) lines.push('');
+    lines.push(...wrapParagraph(ctx, p, maxWidth));
+  });
+  return lines;
+};
+
+// Paragraph gaps take half a line
+export const blockHeight = (lines: string[], fontSize: number) =>
+  lines.reduce((h, line) => h + (line ? 1 : 0.5), 0) * fontSize * LINE_HEIGHT;
+
+// Largest font size whose wrapped text fits the box, found by binary search.
+// Below MIN_FONT text stops being readable, so past that it is cut and `truncated` is set.
+export const fitText = (
+  ctx: CanvasRenderingContext2D,
+  text: string,
+  fontFamily: string,
+  maxWidth: number,
+  maxHeight: number,
+  maxFont = MAX_FONT
+) => {
+  let lo = MIN_FONT;
+  let hi = maxFont;
+  while (hi - lo > 1) {
+    const mid = Math.floor((lo + hi) / 2);
+    if (blockHeight(layoutText(ctx, text, mid, fontFamily, maxWidth), mid) <= maxHeight) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  let lines = layoutText(ctx, text, lo, fontFamily, maxWidth);
+  const truncated = blockHeight(lines, lo) > maxHeight;
+
+  // Even the minimum size overflows: cut to what fits and mark the truncation
+  if (truncated) {
+    const kept: string[] = [];
+    for (const line of lines) {
+      if (blockHeight([...kept, line], lo) > maxHeight) break;
+      kept.push(line);
+    }
+    if (kept.length) kept[kept.length - 1] = kept[kept.length - 1].slice(0, -1) + '…';
+    lines = kept;
+  }
+  return { fontSize: lo, lines, truncated };
+};
+
+// Loads the template font before drawing; canvas silently falls back otherwise
+export const ensurePosterFonts = async (template: PosterTemplate) => {
+  if (!document.fonts) return;
+  await Promise.all([
+    document.fonts.load(`400 40px ${template.fontFamily}`),
+    document.fonts.load(`700 40px ${template.fontFamily}`)
+  ]).catch(() => {});
+};
+
+// Draws the poster; the result says whether the text had to be cut to fit
+export const renderPoster = (
+  canvas: HTMLCanvasElement,
+  content: PosterContent,
+  template: PosterTemplate,
+  aspect: PosterAspect
+): { truncated: boolean } => {
+  const { width, height } = POSTER_SIZES[aspect];
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return { truncated: false };
+
+  // Background
+  const gradient = ctx.createLinearGradient(0, 0, width, height);
+  gradient.addColorStop(0, template.background[0]);
+  gradient.addColorStop(1, template.background[1]);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  if (template.id === 'paper') {
+    ctx.strokeStyle = template.muted;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(50, 50, width - 100, height - 100);
+  }
+
+  // Decorative quote mark
+  ctx.fillStyle = template.accent;
+  ctx.globalAlpha = 0.25;
+  ctx.font = `700 220px ${template.fontFamily}`;
+  ctx.textBaseline = 'top';
+  ctx.fillText('“', PADDING - 20, PADDING - 60);
+  ctx.globalAlpha = 1;
+
+  // Body text, vertically centered in its box
+  const boxTop = PADDING + HEADER_HEIGHT;
+  const boxHeight = height - boxTop - PADDING - FOOTER_HEIGHT;
+  const boxWidth = width - PADDING * 2;
+  const { fontSize, lines, truncated } = fitText(ctx, content.text, template.fontFamily, boxWidth, boxHeight);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  let y = boxTop + Math.max(0, (boxHeight - blockHeight(lines, fontSize)) / 2);
+
+  ctx.fillStyle = template.text;
+  ctx.font = `400 ${fontSize}px ${template.fontFamily}`;
+  for (const line of lines) {
+    if (!line) {
+      y += lineHeight / 2;
+      continue;
+    }
+    ctx.fillText(line, PADDING, y + (lineHeight - fontSize) / 2);
+    y += lineHeight;
+  }
+
+  // Footer: tags on the left, brand on the right
+  const footerY = height - PADDING - 40;
+  ctx.fillStyle = template.muted;
+  ctx.fillRect(PADDING, footerY - 40, boxWidth, 2);
+  ctx.font = `700 30px ${template.fontFamily}`;
+  ctx.fillStyle = template.accent;
+  ctx.fillText([content.tag, ...(content.tags || [])].join('  '), PADDING, footerY);
+  ctx.fillStyle = template.muted;
+  ctx.textAlign = 'right';
+  ctx.fillText(content.brand, width - PADDING, footerY);
+  ctx.textAlign = 'left';
+  return { truncated };
+};
@@ -0,0 +1,38 @@
+import { Quote } from '../types';
+import { createSeededRandom, hashString, shuffle } from './random';
+
+export interface RotationPage {
+  page: number[]; // Quote ids to show now
+  deck: number[]; // Ids still to come in the current cycle
+}
+
+// Deals the next page from a shuffled deck so every quote in the pool is shown once per cycle.
+// When the deck runs short, its last cards are shown and a new cycle is shuffled to fill the page;
+// those last cards go to the back of the new cycle so they don't reappear straight away.
+export const dealPage = (poolIds: number[], deck: number[], size: number, random: () => number = Math.random): RotationPage => {
+  const inPool = new Set(poolIds);
+  const current = deck.filter(id => inPool.has(id));
+  if (current.length >= size) {
+    return { page: current.slice(0, size), deck: current.slice(size) };
+  }
+
+  const leftovers = new Set(current);
+  const nextCycle = [...shuffle(poolIds.filter(id => !leftovers.has(id)), random), ...current];
+  const fill = nextCycle.slice(0, size - current.length);
+  return {
+    page: [...current, ...fill],
+    deck: nextCycle.slice(fill.length)
+  };
+};
+
+// Local calendar date, so the featured quote changes at the user's midnight
+export const todayKey = (date = new Date()) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// The same quote for everyone on a given day: seeded by the date over the pool sorted by id
+export const pickQuoteOfTheDay = (quotes: Quote[], day = todayKey()): Quote | null => {
+  if (!quotes.length) return null;
+  const sorted = [...quotes].sort((a, b) => a.id - b.id);
+  const random = createSeededRandom(hashString(`quote-of-the-day|${day}`));
+  return sorted[Math.floor(random() * sorted.length)];
+};
@@ -0,0 +1,217 @@
+import { pinyin } from 'pinyin-pro';
+import { Quote } from '../types';
+
+// [start, end) offsets into the quote text
+export type TextRange = [number, number];
+
+export interface SearchHit {
+  quote: Quote;
+  score: number;
+  ranges: TextRange[];
+}
+
+interface IndexedQuote {
+  quote: Quote;
+  lower: string;
+  syllables: string[]; // One entry per UTF-16 unit: toneless pinyin for Han characters, the lowercased character otherwise
+}
+
+export interface SearchIndex {
+  entries: IndexedQuote[];
+}
+
+// How much each kind of match is worth for one keyword; text matches outrank pinyin, pinyin outranks typos
+const SCORE = {
+  exact: 100,
+  pinyin: 70,
+  initials: 50,
+  tag: 30,
+  fuzzy: 20
+};
+
+const isLatin = (keyword: string) => /^[a-z]+$/.test(keyword);
+
+const toSyllables = (text: string): string[] => {
+  const syllables = pinyin(text, { toneType: 'none', type: 'array', v: true }).map(s => s.toLowerCase());
+  // pinyin-pro returns one item per character; fall back to raw characters if that ever changes
+  return syllables.length === text.length ? syllables : Array.from(text.toLowerCase());
+};
+
+export const buildSearchIndex = (quotes: Quote[]): SearchIndex => ({
+  entries: quotes.map(quote => ({
+    quote,
+    lower: quote.text.toLowerCase(),
+    syllables: toSyllables(quote.text)
+  }))
+});
+
+// Finds `keyword` in the concatenated syllables, starting at a syllable boundary.
+// Returns the range of characters whose syllables the match covers.
+const findInSyllables = (syllables: string[], keyword: string, initialsOnly: boolean): TextRange | null => {
+  const units = initialsOnly ? syllables.map(s => s[0] || '') : syllables;
+  for (let start = 0; start < units.length; start++) {
+    if (!/[a-z]/.test(units[start])) continue;
+    let rest = keyword;
+    let end = start;
+    while (rest && end < units.length) {
+      const unit = units[end];
+      if (!unit) break;
+      if (rest.startsWith(unit)) {
+        rest = rest.slice(unit.length);
+      } else if (!initialsOnly && unit.startsWith(rest)) {
+        // The keyword may stop part-way through the last syllable ("fangd" for 房贷)
+        rest = '';
+      } else {
+        break;
+      }
+      end++;
+    }
+    if (!rest) return [start, end];
+  }
+  return null;
+};
+
+// Approximate substring search (Sellers): the best window of `haystack` within `maxErrors` edits of `needle`
+const findFuzzy = (haystack: string[], needle: string[], maxErrors: number): TextRange | null => {
+  const m = needle.length;
+  let prev = Array.from({ length: m + 1 }, (_, i) => i);
+  let prevStart = new Array(m + 1).fill(0);
+  let best: { cost: number; range: TextRange } | null = null;
+
+  for (let j = 1; j <= haystack.length; j++) {
+    const cur = [0];
+    const curStart = [j];
+    for (let i = 1; i <= m; i++) {
+      const substitute = prev[i - 1] + (needle[i - 1] === haystack[j - 1] ? 0 : 1);
+      const skipText = prev[i] + 1;
+      const skipNeedle = cur[i - 1] + 1;
+      if (substitute <= skipText && substitute <= skipNeedle) {
+        cur.push(substitute);
+        curStart.push(prevStart[i - 1]);
+      } else if (skipText <= skipNeedle) {
+        cur.push(skipText);
+        curStart.push(prevStart[i]);
+      } else {
+        cur.push(skipNeedle);
+        curStart.push(curStart[i - 1]);
+      }
+    }
+    if (cur[m] <= maxErrors && (!best || cur[m] < best.cost)) {
+      best = { cost: cur[m], range: [curStart[m], j] };
+    }
+    prev = cur;
+    prevStart = curStart;
+  }
+  return best?.range ?? null;
+};
+
+// One typo for short keywords, two for long ones; too short to tell a typo from noise below 3 characters
+const allowedTypos = (length: number) => (length < 3 ? 0 : length < 8 ? 1 : 2);
+
+const matchKeyword = (entry: IndexedQuote, keyword: string): { score: number; ranges: TextRange[] } | null => {
+  const ranges: TextRange[] = [];
+  let index = entry.lower.indexOf(keyword);
+  while (index !== -1) {
+    ranges.push([index, index + keyword.length]);
+    index = entry.lower.indexOf(keyword, index + keyword.length);
+  }
+  if (ranges.length) {
+    // Repeated hits count a little, but never beat a better kind of match
+    return { score: SCORE.exact + Math.min(ranges.length - 1, 5), ranges };
+  }
+
+  if (isLatin(keyword)) {
+    const full = findInSyllables(entry.syllables, keyword, false);
+    if (full) return { score: SCORE.pinyin, ranges: [full] };
+    if (keyword.length >= 2) {
+      const initials = findInSyllables(entry.syllables, keyword, true);
+      if (initials) return { score: SCORE.initials, ranges: [initials] };
+    }
+  }
+
+  if (entry.quote.tags.some(tag => tag.toLowerCase().includes(keyword))) {
+    return { score: SCORE.tag, ranges: [] };
+  }
+
+  const typos = allowedTypos(Array.from(keyword).length);
+  if (!typos) return null;
+  if (isLatin(keyword)) {
+    // Misspelt pinyin: search the spelled-out syllables, then map the window back to characters
+    const letters: string[] = [];
+    const owner: number[] = [];
+    entry.syllables.forEach((syllable, i) => {
+      for (const letter of syllable) {
+        letters.push(letter);
+        owner.push(i);
+      }
+    });
+    const fuzzy = findFuzzy(letters, keyword.split(''), typos);
+    if (fuzzy && fuzzy[1] > fuzzy[0]) {
+      return { score: SCORE.fuzzy, ranges: [[owner[fuzzy[0]], owner[fuzzy[1] - 1] + 1]] };
+    }
+    return null;
+  }
+  // Compare per UTF-16 unit so ranges stay valid offsets into the text
+  const fuzzy = findFuzzy(entry.lower.split(''), keyword.split(''), typos);
+  return fuzzy ? { score: SCORE.fuzzy, ranges: [fuzzy] } : null;
+};
+
+export const splitKeywords = (query: string): string[] =>
+  query.toLowerCase().split(/[\s,，、]+/).filter(Boolean);
+
+// Every keyword must match. Results are ranked by score, then by how early the first match is.
+export const searchQuotes = (index: SearchIndex, query: string, tag?: string): SearchHit[] => {
+  const keywords = splitKeywords(query);
+  if (!keywords.length) return [];
+
+  const hits: (SearchHit & { first: number })[] = [];
+  for (const entry of index.entries) {
+    if (tag && !entry.quote.tags.some(t => t === tag)) continue;
+    let score = 0;
+    const ranges: TextRange[] = [];
+    let matchedAll = true;
+    for (const keyword of keywords) {
+      const match = matchKeyword(entry, keyword);
+      if (!match) {
+        matchedAll = false;
+        break;
+      }
+      score += match.score;
+      ranges.push(...match.ranges);
+    }
+    if (!matchedAll) continue;
+    const first = ranges.length ? Math.min(...ranges.map(r => r[0])) : entry.quote.text.length;
+    hits.push({ quote: entry.quote, score, ranges: mergeRanges(ranges), first });
+  }
+
+  return hits
+    .sort((a, b) => b.score - a.score || a.first - b.first)
+    .map(({ quote, score, ranges }) => ({ quote, score, ranges }));
+};
+
+export const mergeRanges = (ranges: TextRange[]): TextRange[] => {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+  const merged: TextRange[] = [];
+  for (const [start, end] of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+  return merged;
+};
+
+// Cuts text into plain and highlighted pieces for rendering
+export const splitByRanges = (text: string, ranges: TextRange[]): { text: string; hit: boolean }[] => {
+  const pieces: { text: string; hit: boolean }[] = [];
+  let cursor = 0;
+  for (const [start, end] of mergeRanges(ranges)) {
+    if (start > cursor) pieces.push({ text: text.slice(cursor, start), hit: false });
+    pieces.push({ text: text.slice(start, end), hit: true });
+    cursor = end;
+  }
+  if (cursor < text.length) pieces.push({ text: text.slice(cursor), hit: false });
+  return pieces;
+};
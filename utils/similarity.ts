@@ -0,0 +1,59 @@
+// Character n-gram similarity for spotting near-duplicate quotes.
+// Works on Chinese without segmentation: two texts sharing most of their character pairs read alike.
+
+const NGRAM_SIZE = 2;
+
+// Below this many n-grams a text is too short for containment to mean anything
+const MIN_CONTAINED_NGRAMS = 10;
+
+// Punctuation, whitespace and 【】 decoration don't make two quotes different
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+export const toNgrams = (text: string, n = NGRAM_SIZE): Set<string> => {
+  const chars = Array.from(normalize(text));
+  const grams = new Set<string>();
+  if (chars.length && chars.length < n) {
+    grams.add(chars.join(''));
+  }
+  for (let i = 0; i + n <= chars.length; i++) {
+    grams.add(chars.slice(i, i + n).join(''));
+  }
+  return grams;
+};
+
+// 0..1. Dice coefficient over n-grams, raised to the containment ratio when the shorter text
+// is long enough, so a short quote copied inside a long one still counts as a duplicate.
+export const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (!a.size || !b.size) return 0;
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let shared = 0;
+  small.forEach(gram => {
+    if (large.has(gram)) shared++;
+  });
+  const dice = (2 * shared) / (a.size + b.size);
+  const containment = small.size >= MIN_CONTAINED_NGRAMS ? shared / small.size : 0;
+  return Math.max(dice, containment);
+};
+
+export interface SimilarText<T> {
+  item: T;
+  score: number;
+}
+
+// The most similar entry of `corpus`, if any reaches `threshold`
+export const findMostSimilar = <T>(
+  text: string,
+  corpus: { item: T; grams: Set<string> }[],
+  threshold: number
+): SimilarText<T> | null => {
+  const grams = toNgrams(text);
+  let best: SimilarText<T> | null = null;
+  for (const entry of corpus) {
+    const score = similarity(grams, entry.grams);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { item: entry.item, score };
+    }
+  }
+  return best;
+};
@@ -0,0 +1,78 @@
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number;
+  text: string;
+}
+
+export interface SubtitleTimingOptions {
+  charsPerSecond: number; // Reading speed
+  totalSeconds?: number; // If set, stretch/squeeze the cues to exactly fill this duration
+  offset?: number; // Start time of the first cue
+}
+
+// Punctuation that ends a subtitle line; kept on the line it closes
+const BREAK_AFTER = /([。！？；，、：…!?;,:]+|\n+)/;
+// Punctuation dropped from the end of a line, as is usual for Chinese subtitles
+const TRAILING_PUNCT = /[。，、：；,;:.]+$/;
+
+// Splits text into subtitle-sized lines on Chinese punctuation, hard-wrapping anything still too long
+export const splitSubtitleLines = (text: string, maxChars = 16): string[] => {
+  const pieces: string[] = [];
+  let buffer = '';
+  for (const part of text.split(BREAK_AFTER)) {
+    if (!part) continue;
+    if (BREAK_AFTER.test(part)) {
+      if (!part.includes('\n')) buffer += part;
+      pieces.push(buffer);
+      buffer = '';
+    } else {
+      buffer += part;
+    }
+  }
+  pieces.push(buffer);
+
+  const lines: string[] = [];
+  for (const piece of pieces) {
+    const clean = piece.replace(TRAILING_PUNCT, '').trim();
+    if (!clean) continue;
+    // Drop 【title】 brackets but keep the title as its own line
+    const chars = Array.from(clean.replace(/[【】]/g, ''));
+    for (let i = 0; i < chars.length; i += maxChars) {
+      lines.push(chars.slice(i, i + maxChars).join(''));
+    }
+  }
+  return lines;
+};
+
+export const buildCues = (lines: string[], { charsPerSecond, totalSeconds, offset = 0 }: SubtitleTimingOptions): SubtitleCue[] => {
+  const natural = lines.map(line => Math.max(0.8, Array.from(line).length / charsPerSecond));
+  const naturalTotal = natural.reduce((a, b) => a + b, 0);
+  const scale = totalSeconds && naturalTotal > 0 ? totalSeconds / naturalTotal : 1;
+
+  let cursor = offset;
+  return lines.map((text, i) => {
+    const start = cursor;
+    cursor += natural[i] * scale;
+    return { start, end: cursor, text };
+  });
+};
+
+const pad = (n: number, width = 2) => Math.floor(n).toString().padStart(width, '0');
+
+const formatTimestamp = (seconds: number, fractionSeparator: string) => {
+  const ms = Math.round(seconds * 1000);
+  const h = ms / 3600000;
+  const m = (ms % 3600000) / 60000;
+  const s = (ms % 60000) / 1000;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${fractionSeparator}${pad(ms % 1000, 3)}`;
+};
+
+export const toSRT = (cues: SubtitleCue[]): string =>
+  cues.map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`
+  ).join('\n');
+
+export const toVTT = (cues: SubtitleCue[]): string =>
+  'WEBVTT\n\n' + cues.map(cue =>
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`
+  ).join('\n');
@@ -0,0 +1,19 @@
+// The single registry of quote tags. The Tag/Category types, the library tab bar
+// and data validation are all derived from this list; add new tags here only.
+export const TAGS = [
+  '房贷·生存',
+  '职场·内卷',
+  '婚姻·情感',
+  '人性·现实',
+  '孤独·崩溃',
+  '金钱·阶层',
+  '摆烂·躺平'
+] as const;
+
+export type Tag = typeof TAGS[number];
+
+// Pseudo-tag for the "show everything" tab
+export const ALL_TAG = '全部';
+
+export const isKnownTag = (value: string): value is Tag =>
+  (TAGS as readonly string[]).includes(value);
@@ -0,0 +1,10 @@
+// Splits text into sentences on Chinese/ASCII sentence-ending punctuation and line breaks,
+// keeping the punctuation with its sentence
+export const splitSentences = (text: string): string[] =>
+  (text.match(/[^。！？；!?;\n]+[。！？；!?;…”」』]*|\n+/g) || [])
+    .map(s => s.trim())
+    .filter(Boolean);
+
+// Length as a reader experiences it: whitespace and 【】 brackets don't take time
+export const countReadableChars = (text: string): number =>
+  Array.from(text.replace(/[\s【】]/g, '')).length;
@@ -0,0 +1,8 @@
+// 65.3 -> "1:05.3"
+export const formatSeconds = (seconds: number, fractionDigits = 1): string => {
+  const safe = Math.max(0, seconds);
+  const minutes = Math.floor(safe / 60);
+  const rest = (safe - minutes * 60).toFixed(fractionDigits);
+  const [whole, fraction] = rest.split('.');
+  return `${minutes}:${whole.padStart(2, '0')}${fraction ? `.${fraction}` : ''}`;
+};
@@ -0,0 +1,39 @@
+import { CallUsage } from '../types';
+
+// USD per million tokens. Models missing here (local and mock) are counted as free.
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 }
+};
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number; // USD
+}
+
+export const EMPTY_TOTALS: UsageTotals = { calls: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0, cost: 0 };
+
+export const costOf = ({ model, inputTokens, outputTokens }: CallUsage): number => {
+  const price = MODEL_PRICING[model];
+  return price ? (inputTokens * price.input + outputTokens * price.output) / 1_000_000 : 0;
+};
+
+export const sumUsage = (calls: CallUsage[]): UsageTotals =>
+  calls.reduce((totals, call) => ({
+    calls: totals.calls + 1,
+    inputTokens: totals.inputTokens + call.inputTokens,
+    outputTokens: totals.outputTokens + call.outputTokens,
+    latencyMs: totals.latencyMs + call.latencyMs,
+    cost: totals.cost + costOf(call)
+  }), EMPTY_TOTALS);
+
+// Rough count for providers that don't report usage: Chinese runs about one token per character
+export const estimateTokens = (text: string): number => Math.ceil(Array.from(text).length * 0.9);
+
+export const formatTokens = (tokens: number): string =>
+  tokens >= 10000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+export const formatCost = (usd: number): string =>
+  usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
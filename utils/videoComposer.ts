@@ -0,0 +1,231 @@
+import { TimeRange } from '../types';
+import { splitSubtitleLines, buildCues, SubtitleCue } from './subtitles';
+import { fitText, blockHeight, LINE_HEIGHT } from './poster';
+
+export type CaptionMode = 'captions' | 'title';
+export type CaptionPosition = 'top' | 'center' | 'bottom';
+
+export interface ComposerStyle {
+  mode: CaptionMode;
+  position: CaptionPosition;
+  fontFamily: string; // Must be one of the families loaded in index.html
+  blur: number; // Background blur in px, 0 shows a plain dark background
+}
+
+export const COMPOSER_FONTS = [
+  { label: '思源宋体', value: '"Noto Serif SC", serif' },
+  { label: '思源黑体', value: '"Noto Sans SC", sans-serif' },
+  { label: '站酷小薇', value: '"ZCOOL XiaoWei", serif' }
+];
+
+// 9:16 at 720p keeps canvas drawing and encoding real-time on ordinary laptops
+export const COMPOSER_SIZE = { width: 720, height: 1280 };
+
+const CAPTION_FONT = 44;
+const SIDE_PADDING = 60;
+
+// Caption cues spread over the clip, times relative to the range start
+export const buildCaptionCues = (text: string, range: TimeRange, charsPerSecond: number): SubtitleCue[] =>
+  buildCues(splitSubtitleLines(text, 14), {
+    charsPerSecond,
+    totalSeconds: range.end - range.start
+  });
+
+const anchorY = (position: CaptionPosition, blockH: number) => {
+  const { height } = COMPOSER_SIZE;
+  if (position === 'top') return 140;
+  if (position === 'center') return (height - blockH) / 2;
+  return height - 180 - blockH;
+};
+
+const drawVideoLayers = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, blur: number) => {
+  const { width, height } = COMPOSER_SIZE;
+  const vw = video.videoWidth || 16;
+  const vh = video.videoHeight || 9;
+
+  ctx.fillStyle = '#0f172a';
+  ctx.fillRect(0, 0, width, height);
+
+  // Background: the same video scaled to cover, blurred
+  if (blur > 0) {
+    const cover = Math.max(width / vw, height / vh);
+    ctx.save();
+    ctx.filter = `blur(${blur}px) brightness(0.7)`;
+    ctx.drawImage(video, (width - vw * cover) / 2, (height - vh * cover) / 2, vw * cover, vh * cover);
+    ctx.restore();
+  }
+
+  // Foreground: contained and centered
+  const contain = Math.min(width / vw, height / vh);
+  ctx.drawImage(video, (width - vw * contain) / 2, (height - vh * contain) / 2, vw * contain, vh * contain);
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, line: string, style: ComposerStyle) => {
+  const { width } = COMPOSER_SIZE;
+  ctx.font = `700 ${CAPTION_FONT}px ${style.fontFamily}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  const y = anchorY(style.position, CAPTION_FONT * 1.6);
+  const textWidth = ctx.measureText(line).width;
+
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.55)';
+  ctx.fillRect((width - textWidth) / 2 - 24, y - 12, textWidth + 48, CAPTION_FONT + 32);
+
+  ctx.lineWidth = 6;
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.strokeText(line, width / 2, y + 4);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(line, width / 2, y + 4);
+  ctx.textAlign = 'left';
+};
+
+const drawTitle = (ctx: CanvasRenderingContext2D, text: string, style: ComposerStyle) => {
+  const { width, height } = COMPOSER_SIZE;
+  const boxWidth = width - SIDE_PADDING * 2;
+  const { fontSize, lines } = fitText(ctx, text, style.fontFamily, boxWidth, height * 0.4, 56);
+  const lineHeight = fontSize * LINE_HEIGHT;
+  const blockH = blockHeight(lines, fontSize);
+  let y = anchorY(style.position, blockH);
+
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.55)';
+  ctx.fillRect(SIDE_PADDING / 2, y - 24, width - SIDE_PADDING, blockH + 48);
+
+  ctx.font = `700 ${fontSize}px ${style.fontFamily}`;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = '#ffffff';
+  for (const line of lines) {
+    if (!line) {
+      y += lineHeight / 2;
+      continue;
+    }
+    ctx.fillText(line, SIDE_PADDING, y + (lineHeight - fontSize) / 2);
+    y += lineHeight;
+  }
+};
+
+// Draws one output frame. `clipTime` is seconds since the range start.
+export const drawComposerFrame = (
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  text: string,
+  cues: SubtitleCue[],
+  clipTime: number,
+  style: ComposerStyle
+) => {
+  drawVideoLayers(ctx, video, style.blur);
+  if (style.mode === 'title') {
+    drawTitle(ctx, text, style);
+    return;
+  }
+  const cue = cues.find(c => clipTime >= c.start && clipTime < c.end) || (clipTime < 0.1 ? cues[0] : undefined);
+  if (cue) drawCaption(ctx, cue.text, style);
+};
+
+// MP4 where the browser can record it (Safari, recent Chrome), WebM otherwise
+export const pickRecorderMimeType = (): string => {
+  const candidates = [
+    'video/mp4;codecs=avc1,mp4a.40.2',
+    'video/mp4',
+    'video/webm;codecs=vp9,opus',
+    'video/webm;codecs=vp8,opus',
+    'video/webm'
+  ];
+  return candidates.find(type => typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(type)) || 'video/webm';
+};
+
+// Frames are drawn on a timer: animation frames stop in background tabs, timers only slow down
+const FRAME_INTERVAL_MS = 1000 / 30;
+
+interface ComposeOptions {
+  video: HTMLVideoElement;
+  canvas: HTMLCanvasElement;
+  audio: MediaStream | null; // Audio track of the source video, if routable
+  text: string;
+  range: TimeRange;
+  style: ComposerStyle;
+  readingSpeed: number; // Paces the captions
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal; // Stops recording and rejects
+}
+
+// Plays the range in real time while drawing frames onto the canvas and recording it.
+// MediaRecorder can only capture what is actually rendered, so this takes as long as the clip.
+// The end of the range is caught by the video's own events too, so a hidden tab still finishes.
+export const composeVideo = ({ video, canvas, audio, text, range, style, readingSpeed, onProgress, signal }: ComposeOptions): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error("Canvas 2D context unavailable"));
+      return;
+    }
+    if (signal?.aborted) {
+      reject(new Error("Composition cancelled"));
+      return;
+    }
+    canvas.width = COMPOSER_SIZE.width;
+    canvas.height = COMPOSER_SIZE.height;
+
+    const cues = buildCaptionCues(text, range, readingSpeed);
+    const stream = canvas.captureStream(30);
+    audio?.getAudioTracks().forEach(track => stream.addTrack(track));
+
+    const mimeType = pickRecorderMimeType();
+    const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 5_000_000 });
+    const chunks: Blob[] = [];
+    let timer = 0;
+
+    const stopPlayback = () => {
+      clearInterval(timer);
+      video.removeEventListener('seeked', start);
+      video.removeEventListener('timeupdate', onTimeUpdate);
+      video.removeEventListener('ended', finish);
+      signal?.removeEventListener('abort', onAbort);
+      video.pause();
+    };
+    const finish = () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    const fail = (error: unknown) => {
+      recorder.onstop = null;
+      finish();
+      stopPlayback();
+      reject(error);
+    };
+    const onAbort = () => fail(new Error("Composition cancelled"));
+    const onTimeUpdate = () => {
+      if (video.currentTime >= range.end) finish();
+    };
+
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stopPlayback();
+      resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+    };
+    recorder.onerror = () => fail(new Error("MediaRecorder failed"));
+
+    const draw = () => {
+      const clipTime = video.currentTime - range.start;
+      drawComposerFrame(ctx, video, text, cues, clipTime, style);
+      onProgress?.(Math.min(1, clipTime / (range.end - range.start)));
+      if (video.currentTime >= range.end || video.ended) finish();
+    };
+
+    const start = () => {
+      video.removeEventListener('seeked', start);
+      recorder.start(1000);
+      video.play().then(() => {
+        draw();
+        timer = window.setInterval(draw, FRAME_INTERVAL_MS);
+      }).catch(fail);
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    video.addEventListener('timeupdate', onTimeUpdate);
+    video.addEventListener('ended', finish);
+    video.pause();
+    video.addEventListener('seeked', start);
+    video.currentTime = range.start;
+  });
+};
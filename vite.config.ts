@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // The proxy server (npm run server) holds the model keys; the browser only talks to /api
+        proxy: {
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`
+        }
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.QUOTE_PROVIDER': JSON.stringify(env.QUOTE_PROVIDER)
       },
       resolve: {
         alias: {